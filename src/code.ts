@@ -1,20 +1,48 @@
-import { convert } from "./convert";
+import { convert, ConversionError, defaultConvertOptions, parseBreakpointOverrides, parseFontFallbacks, parseMaxImageDensity } from "./convert";
 
 async function run() {
   try {
-    const result = await convert(figma.currentPage)
+    const breakpointOverrides = parseBreakpointOverrides(figma.root.getPluginData("breakpoints"))
+    const maxImageDensity = parseMaxImageDensity(figma.root.getPluginData("image_density"))
+    const fontFallbacks = parseFontFallbacks(figma.root.getPluginData("font_fallbacks"))
+    const result = await convert(figma.currentPage, { ...defaultConvertOptions, breakpointOverrides, maxImageDensity, fontFallbacks })
     figma.ui.postMessage({
       type: "conversion-result",
       content: result
     })
   } catch(e) {
     console.error("Conversion failed", e)
+    figma.ui.postMessage({
+      type: "conversion-error",
+      message: e instanceof Error ? e.message : String(e),
+      nodeId: e instanceof ConversionError ? e.nodeId : null,
+      nodeName: e instanceof ConversionError ? e.nodeName : null,
+    })
   }
 }
 
+// Points the designer at a layer the UI is reporting a problem with
+function selectNode(nodeId: string) {
+  const node = figma.getNodeById(nodeId)
+  if (node == null || node.type === "DOCUMENT" || node.type === "PAGE") return
+
+  // Components used on this page can live on another one
+  let page: BaseNode | null = node
+  while (page != null && page.type !== "PAGE") page = page.parent
+  if (page != null && page !== figma.currentPage) figma.currentPage = page
+
+  figma.currentPage.selection = [node]
+  figma.viewport.scrollAndZoomIntoView([node])
+}
+
 async function main() {
   const token: string | undefined = await figma.clientStorage.getAsync("netlify_token");
   const siteId: string = figma.root.getPluginData("netlify_site_id");
+  const targetId: string = figma.root.getPluginData("deploy_target");
+  const targetConfigs = (await figma.clientStorage.getAsync("target_configs")) || {};
+  const breakpoints: string = figma.root.getPluginData("breakpoints");
+  const imageDensity: string = figma.root.getPluginData("image_density");
+  const fontFallbacks: string = figma.root.getPluginData("font_fallbacks");
   figma.showUI(__html__, {width: 360, height: 180});
 
   figma.ui.on("message", (message) => {
@@ -22,12 +50,27 @@ async function main() {
       figma.clientStorage.setAsync("netlify_token", message.token);
     } else if (message.type === "netlify-site") {
       figma.root.setPluginData("netlify_site_id", message.site_id);
+    } else if (message.type === "deploy-target") {
+      figma.root.setPluginData("deploy_target", message.target_id);
+    } else if (message.type === "breakpoints") {
+      figma.root.setPluginData("breakpoints", message.breakpoints);
+    } else if (message.type === "image-density") {
+      figma.root.setPluginData("image_density", message.imageDensity);
+    } else if (message.type === "font-fallbacks") {
+      figma.root.setPluginData("font_fallbacks", message.fontFallbacks);
+    } else if (message.type === "target-config") {
+      targetConfigs[message.target_id] = message.config;
+      figma.clientStorage.setAsync("target_configs", targetConfigs);
+    } else if (message.type === "resize") {
+      figma.ui.resize(360, Math.max(180, message.height));
     } else if (message.type === "run") {
       run()
+    } else if (message.type === "select-node") {
+      selectNode(message.node_id)
     }
   });
 
-  figma.ui.postMessage({ type: "init", token: token || "", siteId });
+  figma.ui.postMessage({ type: "init", token: token || "", siteId, targetId, targetConfigs, breakpoints, imageDensity, fontFallbacks });
 
   sendToNetlify();
 }
@@ -1,22 +1,132 @@
+import sha1 from 'sha1'
+import { hashBytes, ImageFormat, ImageSize, imageSize, sniffImageFormat } from './images'
+
 export interface ImageToUpload {
   path: string
+  // Relative to the site root, which every page sets as its base URL
+  url: string
   bytes: Uint8Array
+  format: ImageFormat
+  size: ImageSize | null
+}
+
+export interface ConvertOptions {
+  // How many image pixels to ship per CSS pixel an image is drawn at. Larger images are
+  // downscaled to fit; 0, the default, ships every image at its original size. Downscaling goes
+  // through a temporary layer, so it leaves a step in the undo history, and only happens when the
+  // designer asks for it.
+  maxImageDensity: number
+
+  // Fonts to fall back on while a font family loads, or if it can't be, keyed by family. Families
+  // without an entry fall back on a generic family that matches their name.
+  fontFallbacks: { [family: string]: string }
+
+  // By default, a frame designed for a path at some width is shown in windows at least that wide.
+  // Designers can move those breakpoints, keyed by the width frames are designed at.
+  breakpointOverrides: { [frameWidth: number]: number }
+}
+
+export const defaultConvertOptions: ConvertOptions = {
+  maxImageDensity: 0,
+  fontFallbacks: {
+    "Inter": `system-ui, -apple-system, "Segoe UI", Roboto, sans-serif`,
+    "Roboto": `"Helvetica Neue", Arial, sans-serif`,
+    "SF Pro Text": `-apple-system, system-ui, sans-serif`,
+    "SF Pro Display": `-apple-system, system-ui, sans-serif`,
+    "Helvetica Neue": `Helvetica, Arial, sans-serif`,
+  },
+  breakpointOverrides: {},
+}
+
+// Overrides are written as "1440: 1024, 768: 600", each pair being the width a frame is designed
+// at and the window width it should take over from
+export function parseBreakpointOverrides(text: string): { [frameWidth: number]: number } {
+  const overrides: { [frameWidth: number]: number } = {}
+  for (const pair of text.split(",")) {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*[:=]\s*(\d+(?:\.\d+)?)\s*$/.exec(pair)
+    if (match) overrides[parseFloat(match[1])] = parseFloat(match[2])
+  }
+  return overrides
+}
+
+// Fallbacks are written as "Inter: Arial, sans-serif; Lora: Georgia, serif", and are used on top of
+// the defaults
+export function parseFontFallbacks(text: string): { [family: string]: string } {
+  const fallbacks: { [family: string]: string } = { ...defaultConvertOptions.fontFallbacks }
+  for (const entry of text.split(";")) {
+    const match = /^\s*([^:]+?)\s*:\s*([^{}<]+?)\s*$/.exec(entry)
+    if (match) fallbacks[match[1]] = match[2]
+  }
+  return fallbacks
+}
+
+// As typed in the plugin, where leaving it empty keeps the default
+export function parseMaxImageDensity(text: string): number {
+  const density = parseFloat(text)
+  return isNaN(density) || density < 0 ? defaultConvertOptions.maxImageDensity : density
+}
+
+// Conversion failures name the innermost layer being converted, so the designer knows where to look
+export class ConversionError extends Error {
+  nodeId: string
+  nodeName: string
+
+  constructor(message: string, node: BaseNode) {
+    super(message)
+    this.name = "ConversionError"
+    this.nodeId = node.id
+    this.nodeName = node.name
+  }
+}
+
+async function convertingNode<T>(node: BaseNode, convert: () => Promise<T>): Promise<T> {
+  try {
+    return await convert()
+  } catch (e) {
+    if (e instanceof ConversionError) throw e
+    throw new ConversionError(e instanceof Error ? e.message : String(e), node)
+  }
 }
 
 export interface FontInUse {
   name: string
 }
 
+export interface Breakpoint {
+  // Class on the frame's element
+  className: string
+  // Narrowest window the frame is shown in, until the next breakpoint takes over
+  minWidth: number
+}
+
+// Something in the design that the site doesn't reproduce faithfully
+export interface ConversionWarning {
+  nodeId: string
+  nodeName: string
+  message: string
+}
+
 export interface ConversionResult {
   pathToHtml: { [path: string]: string }
-  hasMobileVersion: { [path: string]: boolean }
+  // The frames designed for each path at different widths, narrowest first. Paths designed at a
+  // single width have no breakpoints.
+  breakpoints: { [path: string]: Breakpoint[] }
   images: { [hash: string]: ImageToUpload }
   fonts: { [name: string]: boolean }
   startFrameId: string
   frameIdToPath: { [id: string]: string }
-  actions: Action[]
+  actions: { [actionId: number]: Action }
   name: string
   favicon: Uint8Array | null
+  warnings: ConversionWarning[]
+
+  // Markup of the components the pages use, by the custom element that draws their instances.
+  // Layers that instances can change are marked with data-part, named after the layer, and
+  // instances change them through attributes such as label-content, label-class and label-hidden.
+  components: { [tagName: string]: string }
+
+  // Rules for the generated classes every page refers to instead of inline styles
+  css: string
 }
 
 function toStyleString(style: CSS): string {
@@ -25,31 +135,132 @@ function toStyleString(style: CSS): string {
   }).join(`;`)
 }
 
-function h(tagName: string, name: string, style: CSS, layout: Layout, eventHandling: string, content: string) {
+// Identical styles share a class, named after a hash of the declarations so that names don't
+// depend on the order nodes happen to finish converting in.
+function classForStyle(style: CSS): string {
+  const key = toStyleString(style)
+  if (key === "") return ""
+  const className = `s-${sha1(key).slice(0, 8)}`
+  classStyles[className] = style
+  return className
+}
+
+function classAttribute(...classNames: string[]): string {
+  const value = classNames.filter(className => className !== "").join(" ")
+  return value === "" ? "" : `class="${value}"`
+}
+
+function generateStylesheet(named: (text: string) => string): string {
+  const styles: { [className: string]: CSS } = {}
+  for (const className in classStyles) {
+    styles[named(className)] = classStyles[className]
+  }
+  const rules = Object.keys(styles).sort().map(className => {
+    const style = styles[className]
+    return `.${className} {\n${Object.keys(style).map(key => `  ${key}: ${named(`${style[key]}`)};\n`).join("")}}`
+  })
+
+  const variables: { [name: string]: string } = {}
+  for (const name in cssVariables) {
+    variables[named(name)] = cssVariables[name]
+  }
+  const variableNames = Object.keys(variables).sort()
+  if (variableNames.length > 0) {
+    rules.unshift(`:root {\n${variableNames.map(name => `  ${name}: ${variables[name]};\n`).join("")}}`)
+  }
+
+  return rules.join("\n")
+}
+
+function h(tagName: string, node: BaseNode, style: CSS, layout: Layout, eventHandling: string, content: string) {
+  const className = ["innerDiv", classForStyle({ ...layout.inner, ...style })].filter(name => name !== "").join(" ")
+  const part = partKey(node)
   // TODO(jlfwong): Remove the name=... for debugging
-  return `<div class="${layout.outerClass}" style='${toStyleString(layout.outer)}'><${tagName} class="innerDiv" name="${name}" ${eventHandling} style='${toStyleString({ ...layout.inner, ...style })}'>${content}</${tagName}></div>`
+  const open = `<div ${classAttribute(layout.outerClass, classForStyle(layout.outer))}><${tagName} class="${className}"${part ? ` data-part="${part.key}"` : ""} name="${node.name}" ${eventHandling}>`
+  const close = `</${tagName}></div>`
+  if (part) {
+    componentParts[part.scopeId] = componentParts[part.scopeId] || {}
+    componentParts[part.scopeId][part.key] = { open, content, close, className }
+  }
+  return open + content + close
+}
+
+// Layers inside components and instances are marked with their id within the component, so an
+// instance can be described as its component's markup with some of those layers changed
+interface ComponentPart {
+  open: string
+  content: string
+  close: string
+  className: string
+}
+
+export interface ComponentOverride {
+  hidden?: boolean
+  class?: string
+  content?: string
+}
+
+function partKey(node: BaseNode): { scopeId: string, key: string } | null {
+  let scope = node.parent
+  while (scope != null && scope.type !== "INSTANCE" && scope.type !== "COMPONENT") {
+    scope = scope.parent
+  }
+  if (scope == null) return null
+  if (scope.type === "COMPONENT") return { scopeId: scope.id, key: node.id }
+
+  // Layers of an instance are identified by the instance's id followed by the id of the layer
+  // they copy from the component
+  const prefix = `${scope.id.startsWith("I") ? scope.id : `I${scope.id}`};`
+  return { scopeId: scope.id, key: node.id.startsWith(prefix) ? node.id.slice(prefix.length) : node.id }
+}
+
+function placeholder(width: string | number, height: number): string {
+  return `<div ${classAttribute(classForStyle({ width, height: `${height}px` }))}></div>`
 }
 
 let images: ConversionResult["images"]
 let fonts: ConversionResult["fonts"]
 let frameIdToPath: ConversionResult["frameIdToPath"]
-let frameIdToSize: { [id: string]: string } = {}
-let hasMobileVersion: ConversionResult["hasMobileVersion"]
+let frameIdToBreakpoint: { [id: string]: string }
+let breakpoints: ConversionResult["breakpoints"]
 let actions: ConversionResult["actions"]
+let classStyles: { [className: string]: CSS }
+let cssVariables: { [name: string]: string }
+let sharedStyles: { [styleId: string]: { name: string, prefix: string } }
+let overlayIds: { [id: string]: boolean }
+let convertingOverlay = false
+let downscaledImages: { [key: string]: ImageToUpload }
+let warnings: ConversionWarning[]
+let options: ConvertOptions
+let componentParts: { [scopeId: string]: { [key: string]: ComponentPart } }
+let componentTemplates: { [componentId: string]: Promise<ComponentTemplate | null> }
+let components: ConversionResult["components"]
 
 function nameToPath(name: string): string {
   name = name.toLowerCase()
   return "/" + (name.endsWith(".html") ? name : name.replace(/\W+/g, "-") + "/index.html")
 }
 
-export async function convert(node: PageNode): Promise<ConversionResult> {
+export async function convert(node: PageNode, convertOptions: ConvertOptions = defaultConvertOptions): Promise<ConversionResult> {
+  options = convertOptions
   images = {}
+  downscaledImages = {}
+  warnings = []
   fonts = {}
   frameIdToPath = {}
-  frameIdToSize = {}
-  hasMobileVersion = {}
-  const pathToFrameId: { [path: string]: string } = {}
-  actions = []
+  frameIdToBreakpoint = {}
+  breakpoints = {}
+  const framesForPath: { [path: string]: (FrameNode | ComponentNode | InstanceNode)[] } = {}
+  actions = {}
+  classStyles = {}
+  cssVariables = {}
+  sharedStyles = {}
+  overlayIds = {}
+  componentParts = {}
+  componentTemplates = {}
+  components = {}
+
+  const overlayOnly = findOverlayOnlyFrames(node)
 
   // Build the routing table
   for (let pageChild of node.children) {
@@ -57,34 +268,20 @@ export async function convert(node: PageNode): Promise<ConversionResult> {
       case "INSTANCE":
       case "COMPONENT":
       case "FRAME": {
-        const path = nameToPath(pageChild.name)
-
-        if (pathToFrameId[path]) {
-          const otherFrame = pathToFrameId[path]
-          if (frameIdToSize[otherFrame] === "mobile") {
-            // this path already has a mobile version, skip it
-            continue
-          }
-
-          hasMobileVersion[path] = true
-
-          if (pageChild.width < (figma.getNodeById(otherFrame) as LayoutMixin).width) {
-            frameIdToSize[pageChild.id] = "mobile"
-            frameIdToPath[pageChild.id] = path
-            continue
-          } else {
-            frameIdToSize[otherFrame] = "mobile"
-          }
-        }
+        if (overlayOnly[pageChild.id]) continue
 
-        frameIdToSize[pageChild.id] = "desktop"
-        frameIdToPath[pageChild.id] = path
-        pathToFrameId[path] = pageChild.id
+        const path = nameToPath(pageChild.name)
+        framesForPath[path] = framesForPath[path] || []
+        framesForPath[path].push(pageChild)
         break
       }
     }
   }
 
+  for (const path in framesForPath) {
+    assignBreakpoints(path, framesForPath[path])
+  }
+
   let startFrame = node.prototypeStartNode
   if (startFrame == null) {
     // No prototype start node specified. Fall back to top-left-most node
@@ -93,6 +290,7 @@ export async function convert(node: PageNode): Promise<ConversionResult> {
         case "INSTANCE":
         case "COMPONENT":
         case "FRAME": {
+          if (overlayOnly[pageChild.id]) continue
           if (!startFrame) {
             startFrame = pageChild
           } else {
@@ -110,13 +308,312 @@ export async function convert(node: PageNode): Promise<ConversionResult> {
   }
 
   const result = await convertPage(node)
-  return {name: figma.currentPage.name, ...result, hasMobileVersion, images, fonts, frameIdToPath, startFrameId: startFrame.id, actions}
+  const named = nameSharedStyles()
+  for (const path in result.pathToHtml) {
+    result.pathToHtml[path] = named(result.pathToHtml[path])
+  }
+  for (const tagName in components) {
+    components[tagName] = named(components[tagName])
+  }
+  return {name: figma.currentPage.name, ...result, breakpoints, images, fonts, frameIdToPath, startFrameId: startFrame.id, actions, css: generateStylesheet(named), warnings, components}
+}
+
+// Frames with the same name are versions of one page designed at different widths, each shown
+// from its breakpoint up to the next one
+function assignBreakpoints(path: string, frames: (FrameNode | ComponentNode | InstanceNode)[]) {
+  frames.sort((a, b) => a.width - b.width)
+
+  const byWidth: (FrameNode | ComponentNode | InstanceNode)[] = []
+  for (const frame of frames) {
+    const width = Math.round(frame.width)
+    if (byWidth.length > 0 && Math.round(byWidth[byWidth.length - 1].width) === width) {
+      warn(frame, `Another frame named "${frame.name}" has the same width, so this one is left out`)
+      continue
+    }
+    byWidth.push(frame)
+    frameIdToPath[frame.id] = path
+  }
+  if (byWidth.length < 2) return
+
+  const entries = byWidth.map((frame, i) => {
+    const width = Math.round(frame.width)
+    const override = i === 0 ? null : options.breakpointOverrides[width]
+    return { frame, width, overridden: override != null, minWidth: override != null ? override : i === 0 ? 0 : width }
+  })
+
+  // Overrides can move a breakpoint past its neighbours'. Frames are shown in the order of their
+  // breakpoints, whatever their widths.
+  const ordered = entries.slice().sort((a, b) => a.minWidth - b.minWidth || a.width - b.width)
+  ordered.forEach((entry, i) => {
+    if (entry.overridden && entry !== entries[i]) {
+      warn(entry.frame, `Its breakpoint is moved to ${entry.minWidth}px, out of order with the other frames named "${entry.frame.name}", so they are shown in breakpoint order`)
+    }
+    // The later one wins where both would be shown
+    if (i > 0 && entry.minWidth === ordered[i - 1].minWidth) {
+      warn(ordered[i - 1].frame, `Another frame named "${entry.frame.name}" is shown from the same breakpoint, so this one never is`)
+    }
+  })
+
+  breakpoints[path] = ordered.map(({ frame, width, minWidth }) => {
+    const className = `breakpoint-${width}`
+    frameIdToBreakpoint[frame.id] = className
+    return { className, minWidth }
+  })
+}
+
+function warn(node: BaseNode, message: string) {
+  if (warnings.some(warning => warning.nodeId === node.id && warning.message === message)) return
+  warnings.push({ nodeId: node.id, nodeName: node.name, message })
+}
+
+function warnAboutBlending(node: BaseNode & BlendMixin) {
+  warnAboutBlendMode(node, node.blendMode, "layer")
+}
+
+function warnAboutBlendMode(node: BaseNode, blendMode: BlendMode | undefined, kind: string) {
+  if (blendMode != null && blendModeToCSS(blendMode) == null) {
+    warn(node, `The ${blendMode.toLowerCase().replace(/_/g, " ")} blend mode of a ${kind} has no CSS equivalent and is ignored`)
+  }
+}
+
+function topLevelFrameId(node: BaseNode): string {
+  while (node.parent && node.parent.type !== "PAGE") {
+    node = node.parent
+  }
+  return node.id
+}
+
+// Frames that are only ever opened as overlays are rendered into the pages that open them, rather
+// than getting a page of their own. A SWAP from within an overlay replaces that overlay, so its
+// destination is an overlay too.
+function findOverlayOnlyFrames(page: PageNode): { [id: string]: boolean } {
+  const overlayDestinations: { [id: string]: boolean } = {}
+  const otherDestinations: { [id: string]: boolean } = {}
+  if (page.prototypeStartNode) otherDestinations[page.prototypeStartNode.id] = true
+
+  const swaps: { from: string, to: string }[] = []
+  for (const node of page.findAll(node => 'reactions' in node && node.reactions.length > 0)) {
+    for (const { action } of (node as SceneNode & ReactionMixin).reactions) {
+      if (action.type !== "NODE" || action.destinationId == null) continue
+      if (action.navigation === "OVERLAY") {
+        overlayDestinations[action.destinationId] = true
+      } else if (action.navigation === "SWAP") {
+        swaps.push({ from: topLevelFrameId(node), to: action.destinationId })
+      } else {
+        otherDestinations[action.destinationId] = true
+      }
+    }
+  }
+
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const { from, to } of swaps) {
+      if (overlayDestinations[from] && !overlayDestinations[to]) {
+        overlayDestinations[to] = true
+        changed = true
+      }
+    }
+  }
+  for (const { from, to } of swaps) {
+    if (!overlayDestinations[from]) otherDestinations[to] = true
+  }
+
+  const overlayOnly: { [id: string]: boolean } = {}
+  for (const id in overlayDestinations) {
+    if (!otherDestinations[id]) overlayOnly[id] = true
+  }
+  return overlayOnly
+}
+
+// Actions are numbered after a hash of their contents, like style classes, so ids don't depend on
+// the order nodes happen to finish converting in. Instances repeat their component's reactions,
+// and share its actions so they can share its markup too.
+function idForAction(action: Action): number {
+  const key = JSON.stringify(action)
+  let actionId = parseInt(sha1(key).slice(0, 8), 16)
+  while (actions[actionId] != null && JSON.stringify(actions[actionId]) !== key) {
+    actionId++
+  }
+  actions[actionId] = action
+  return actionId
+}
+
+// Generated names such as classes, custom elements and attributes are lowercase words joined by
+// dashes
+export function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+}
+
+// The name, or if that's taken, the name numbered from 2
+export function uniqueName(name: string, taken: { [name: string]: boolean }, separator: string = "-"): string {
+  let unique = name
+  for (let i = 2; taken[unique]; i++) {
+    unique = `${name}${separator}${i}`
+  }
+  taken[unique] = true
+  return unique
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;")
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+// Relative to the site root, so sites work under a project path or a path-style bucket
+function pathToUrl(path: string): string {
+  const url = path.slice(1)
+  return url.endsWith("index.html") ? url.slice(0, url.indexOf("index.html")) || "./" : url
+}
+
+const clickTriggers = ["ON_CLICK", "ON_PRESS", "MOUSE_DOWN", "MOUSE_UP"]
+
+function isClickable(node: BaseNode): boolean {
+  return 'reactions' in node && node.reactions.some(({ trigger }) => clickTriggers.indexOf(trigger.type) >= 0)
+}
+
+interface Annotations {
+  alt?: string
+  label?: string
+}
+
+// Designers annotate layers in their names, e.g. "Logo [alt=Acme Inc.]" or "Close [label=Close
+// menu]". Other plugins and scripts can set the same keys as shared plugin data.
+function getAnnotations(node: BaseNode): Annotations {
+  const annotations: Annotations = {}
+  const pattern = /\[(alt|label)\s*[=:]\s*([^\]]*)\]/gi
+  let match
+  while ((match = pattern.exec(node.name)) != null) {
+    annotations[match[1].toLowerCase() as keyof Annotations] = match[2].trim()
+  }
+
+  for (const key of ["alt", "label"] as (keyof Annotations)[]) {
+    const value = node.getSharedPluginData("magic_button", key)
+    if (value !== "") annotations[key] = value
+  }
+  return annotations
+}
+
+function layerName(node: BaseNode): string {
+  return node.name.replace(/\[(alt|label)\s*[=:][^\]]*\]/gi, "").trim()
+}
+
+function isDefaultLayerName(name: string): boolean {
+  return /^(rectangle|image|frame|ellipse|group|vector|polygon|star|line|union|subtract|intersect|exclude)\s*\d*$/i.test(name)
+}
+
+function hasTextDescendant(node: SceneNode): boolean {
+  if (node.type === "TEXT") return true
+  return 'children' in node && node.children.some(child => child.visible && hasTextDescendant(child))
+}
+
+// Links and buttons can't nest, so only the outermost clickable node gets to be one. Top-level
+// frames stay divs, so they don't count.
+function hasClickableAncestor(node: BaseNode): boolean {
+  for (let parent = node.parent; parent && parent.parent && parent.parent.type !== "PAGE"; parent = parent.parent) {
+    if (isClickable(parent)) return true
+  }
+  return false
+}
+
+interface SemanticElement {
+  tagName: string
+  attributes: string
+}
+
+// Anything that takes the visitor to a page or URL is a link, so crawlers can follow it. The
+// runtime still handles the click, so transitions play as usual.
+function elementForReactions(node: SceneNode): SemanticElement {
+  if (!isClickable(node)) return { tagName: "div", attributes: "" }
+
+  // Nodes without any text need a label to be announced as anything useful
+  const annotations = getAnnotations(node)
+  let label = annotations.label
+  if (label == null && !hasTextDescendant(node) && !isDefaultLayerName(layerName(node))) {
+    label = layerName(node)
+  }
+
+  const attributes = []
+  if (label) attributes.push(`aria-label="${escapeAttribute(label)}"`)
+
+  if (hasClickableAncestor(node)) {
+    // The runtime handles Enter and Space for these. Focus follows document order, which is the
+    // order of the layers.
+    return { tagName: "div", attributes: [`role="button"`, `tabindex="0"`, ...attributes].join(" ") }
+  }
+
+  for (const { trigger, action } of (node as SceneNode & ReactionMixin).reactions) {
+    if (trigger.type !== "ON_CLICK") continue
+    if (action.type === "URL") {
+      return { tagName: "a", attributes: [`href="${escapeAttribute(action.url)}"`, ...attributes].join(" ") }
+    }
+    if (action.type === "NODE" && action.navigation === "NAVIGATE" && action.destinationId != null) {
+      const path = frameIdToPath[action.destinationId]
+      if (path != null) return { tagName: "a", attributes: [`href="${escapeAttribute(pathToUrl(path))}"`, ...attributes].join(" ") }
+    }
+  }
+
+  return { tagName: "button", attributes: [`type="button"`, ...attributes].join(" ") }
+}
+
+// Images painted as CSS backgrounds or inline SVG are invisible to screen readers unless described.
+// Undescribed vector art is assumed to be decorative.
+function imageAttributes(node: SceneNode, element: SemanticElement, isVector: boolean): string {
+  if (element.tagName !== "div" || element.attributes !== "") return ""
+  const { alt } = getAnnotations(node)
+  if (alt) return `role="img" aria-label="${escapeAttribute(alt)}"`
+  return isVector ? `aria-hidden="true"` : ""
+}
+
+// From the layer name ("H2", "Heading 3 - Pricing"), the text style name ("Headings/H1"), or
+// failing those, a font size well above body text
+function headingLevel(node: TextNode): number | null {
+  const convention = /^\s*(?:h|heading\s*)([1-6])\b/i
+  const fromName = convention.exec(node.name)
+  if (fromName) return parseInt(fromName[1])
+
+  const textStyle = getSharedStyle(node.textStyleId)
+  if (textStyle != null) {
+    const fromStyle = convention.exec(textStyle.name.split("/").pop()!)
+    if (fromStyle) return parseInt(fromStyle[1])
+  }
+
+  const fontSize = defaultForMixed(node.fontSize, 0)
+  if (fontSize >= 40) return 1
+  if (fontSize >= 32) return 2
+  if (fontSize >= 24) return 3
+  return null
+}
+
+// Figma's default layer names say nothing about the image, so those are treated as decorative
+function altTextForNode(node: SceneNode): string {
+  const { alt } = getAnnotations(node)
+  if (alt != null) return alt
+  return isDefaultLayerName(layerName(node)) ? "" : layerName(node)
+}
+
+// A rectangle filled by nothing but a scaled image is content rather than decoration
+function singleImagePaint(node: RectangleNode): ImagePaint | null {
+  const visible = defaultForMixed(node.fills, []).filter(paint => paint.visible !== false)
+  if (visible.length !== 1) return null
+  const paint = visible[0]
+  if (paint.type !== "IMAGE" || paint.imageHash == null) return null
+  if (paint.scaleMode !== "FILL" && paint.scaleMode !== "FIT") return null
+  return paint
 }
 
 async function convertNode(node: BaseNode): Promise<string> {
+  return await convertingNode(node, () => convertNodeOfType(node))
+}
+
+async function convertNodeOfType(node: BaseNode): Promise<string> {
   if ('visible' in node && !node.visible) {
     return ""
   }
+  if ('blendMode' in node) warnAboutBlending(node)
 
   switch (node.type) {
     case "DOCUMENT":
@@ -169,7 +666,17 @@ function isVectorSubtree(node: ChildrenMixin): boolean {
 async function convertChildren(children: ReadonlyArray<BaseNode>): Promise<string> {
   const allChildren: Promise<string>[] = []
   function appendChildren(children: ReadonlyArray<BaseNode>) {
-    for (const child of children) {
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i]
+      if ('isMask' in child && child.isMask && child.visible) {
+        if (child.parent && 'layoutMode' in child.parent && child.parent.layoutMode !== "NONE") {
+          warn(child, "Masks in auto layout frames aren't supported, so this layer is drawn instead of clipping the layers above it")
+        } else {
+          allChildren.push(convertMaskedChildren(child, children.slice(i + 1)))
+          break
+        }
+      }
+
       if (child.type !== "GROUP") allChildren.push(convertNode(child))
       else if (child.visible) {
         if (isVectorSubtree(child)) {
@@ -187,11 +694,69 @@ async function convertChildren(children: ReadonlyArray<BaseNode>): Promise<strin
   return (await Promise.all(allChildren)).join("\n")
 }
 
+// The nearest ancestor that isn't a group, which is what layers are positioned within
+function layoutParent(node: BaseNode): BaseNode & LayoutMixin {
+  let parent = node.parent!
+  while (parent.type === "GROUP") {
+    parent = parent.parent!
+  }
+  return parent as BaseNode & LayoutMixin
+}
+
+// A mask clips the layers above it in the same group. Those layers go into a layer of their own,
+// covering the node they're positioned in, which is masked by the exported shape of the mask.
+// The mask itself isn't drawn.
+async function convertMaskedChildren(mask: SceneNode, masked: ReadonlyArray<BaseNode>): Promise<string> {
+  let svg: Uint8Array
+  try {
+    svg = await mask.exportAsync({ format: "SVG" })
+  } catch (e) {
+    console.error("Failed to export mask", mask, e)
+    warn(mask, "Could not export this mask, so the layers above it aren't clipped")
+    return await convertChildren(masked)
+  }
+
+  const { url } = addImageBytes(svg, "svg")
+  const maskBounds = getBoundingBox(mask)
+  const parentBounds = getBoundingBox(layoutParent(mask))
+  const maskValue = `url(${url}) no-repeat ${maskBounds.x - parentBounds.x}px ${maskBounds.y - parentBounds.y}px/${maskBounds.width}px ${maskBounds.height}px`
+  const style: CSS = {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    width: "100%",
+    height: "100%",
+    "pointer-events": "none",
+    "-webkit-mask": maskValue,
+    mask: maskValue,
+  }
+  return `<div ${classAttribute(classForStyle(style))}>${await convertChildren(masked)}</div>`
+}
+
+// Scrolling frames scroll their content in whichever directions the prototype allows, and clip it
+// in the others
+function getOverflowStyle(node: FrameNode | ComponentNode | InstanceNode): CSS {
+  if (node.overflowDirection === "NONE") {
+    return node.clipsContent ? { overflow: "hidden" } : {}
+  }
+  return {
+    "overflow-x": node.overflowDirection === "VERTICAL" ? "hidden" : "auto",
+    "overflow-y": node.overflowDirection === "HORIZONTAL" ? "hidden" : "auto",
+  }
+}
+
+// Fixed children are the last ones in the list, drawn above everything that scrolls
+function splitFixedChildren(node: FrameNode | ComponentNode | InstanceNode): [ReadonlyArray<SceneNode>, ReadonlyArray<SceneNode>] {
+  const scrollingCount = node.children.length - node.numberOfFixedChildren
+  return [node.children.slice(0, scrollingCount), node.children.slice(scrollingCount)]
+}
+
 async function convertPage(node: PageNode): Promise<Pick<ConversionResult, 'favicon' | 'pathToHtml'>> {
   const retval: Pick<ConversionResult, 'favicon' | 'pathToHtml'> = { favicon: null, pathToHtml: {} }
   const data = retval.pathToHtml
+  const overlaysForPath: { [path: string]: { [id: string]: boolean } } = {}
 
-  for (let child of node.children) {
+  for (const child of node.children) {
     const path = frameIdToPath[child.id]
     if (!path) continue
 
@@ -199,7 +764,8 @@ async function convertPage(node: PageNode): Promise<Pick<ConversionResult, 'favi
       if (child.name === "favicon.ico") {
         retval.favicon = await child.exportAsync({ format: 'PNG' })
       } else {
-        const result = await convertTopLevelFrame(child)
+        overlayIds = overlaysForPath[path] = overlaysForPath[path] || {}
+        const result = await convertingNode(child, () => convertTopLevelFrame(child))
         if (data[path]) {
           data[path] += result
         } else {
@@ -208,14 +774,42 @@ async function convertPage(node: PageNode): Promise<Pick<ConversionResult, 'favi
       }
     }
   }
+
+  // Each page carries hidden layers for the overlays it can open, including overlays opened from
+  // within other overlays
+  for (const path in overlaysForPath) {
+    overlayIds = overlaysForPath[path]
+    const converted: { [id: string]: boolean } = {}
+    let pending = Object.keys(overlayIds)
+    while (pending.length > 0) {
+      for (const id of pending) {
+        converted[id] = true
+        const overlay = figma.getNodeById(id)
+        if (overlay && (overlay.type === "FRAME" || overlay.type === "COMPONENT" || overlay.type === "INSTANCE")) {
+          data[path] += await convertingNode(overlay, () => convertOverlay(overlay))
+        }
+      }
+      pending = Object.keys(overlayIds).filter(id => !converted[id])
+    }
+  }
+
+  // Only component templates need to find their layers again
+  for (const path in data) {
+    data[path] = data[path].replace(/ data-part="[^"]*"/g, "")
+  }
+
   return retval
 }
 
-function eventHandlingAttributes(reactions: ReadonlyArray<Reaction>): string {
-  let attributes = []
+// Like transition durations, trigger timeouts and delays are in seconds
+function eventHandlingAttributes(node: BaseNode, reactions: ReadonlyArray<Reaction>): string {
+  const handlers: { [attr: string]: string[] } = {}
+  const timeouts: string[] = []
 
   for (let {trigger, action} of reactions) {
     let attr: string | null = null
+    let handler = "magic_runAction"
+    let delay = 0
     switch (trigger.type) {
       case "ON_CLICK":
         attr = "onclick"
@@ -223,31 +817,96 @@ function eventHandlingAttributes(reactions: ReadonlyArray<Reaction>): string {
 
       case "MOUSE_DOWN":
         attr = "onpointerdown"
+        delay = trigger.delay
         break
 
       case "ON_PRESS":
+        attr = "onpointerup"
+        break
+
       case "MOUSE_UP":
         attr = "onpointerup"
+        delay = trigger.delay
         break
 
       case "ON_HOVER":
-        attr = "onmouseover"
+        // Unlike MOUSE_ENTER, this is undone when the pointer leaves again
+        attr = "onmouseenter"
+        handler = "magic_hover"
+        break
+
+      case "MOUSE_ENTER":
+        attr = "onmouseenter"
+        delay = trigger.delay
+        break
+
+      case "MOUSE_LEAVE":
+        attr = "onmouseleave"
+        delay = trigger.delay
         break
+
+      case "ON_DRAG":
+        attr = "onpointerdown"
+        handler = "magic_drag"
+        break
+    }
+
+    if (attr == null && trigger.type !== "AFTER_TIMEOUT") continue
+
+    // The runtime changes variants in place, wherever the instance is
+    const variant = variantDestination(node, action)
+    if (variant != null) {
+      if (action.type === "NODE" && action.transition && action.transition.type === "SMART_ANIMATE") {
+        warn(node, "Smart animate between variants changes them without animating")
+      }
+      // Only for as long as the pointer is down, as CSS does with :active
+      if (trigger.type === "ON_PRESS") {
+        attr = "onpointerdown"
+        handler = "magic_press"
+      }
+    } else if (action.type === "NODE" && action.destinationId != null &&
+        (action.navigation === "OVERLAY" || (action.navigation === "SWAP" && convertingOverlay))) {
+      overlayIds[action.destinationId] = true
     }
 
-    if (attr == null) continue
+    if (action.type === "NODE" && variant == null) {
+      if (action.destinationId == null || figma.getNodeById(action.destinationId) == null) {
+        warn(node, "An interaction leads to a frame that no longer exists")
+      } else if (!frameIdToPath[action.destinationId] && !overlayIds[action.destinationId]) {
+        warn(node, "An interaction leads to a frame that isn't on this page")
+      }
+      if (action.transition && action.transition.type === "SMART_ANIMATE") {
+        warn(node, "Smart animate transitions play as a dissolve")
+      }
+    }
 
-    const actionId = actions.length
-    actions.push(action)
-    attributes.push(`${attr}="magic_runAction(${actionId})"`)
+    const actionId = idForAction(action)
+
+    if (trigger.type === "AFTER_TIMEOUT") {
+      // Started by the runtime whenever the node becomes visible
+      timeouts.push(`${actionId}:${Math.round(trigger.timeout * 1000)}`)
+    } else if (attr != null) {
+      let args = `${actionId}, this`
+      if (handler === "magic_drag") {
+        args += ", event"
+      } else if (delay > 0) {
+        args += `, ${Math.round(delay * 1000)}`
+      }
+      handlers[attr] = handlers[attr] || []
+      handlers[attr].push(`${handler}(${args})`)
+    }
   }
 
+  const attributes = Object.keys(handlers).map(attr => `${attr}="${handlers[attr].join("; ")}"`)
+  if (timeouts.length > 0) {
+    attributes.push(`data-magic-timeout="${timeouts.join(" ")}"`)
+  }
   return attributes.join(" ")
 }
 
 async function convertAutolayoutGroup(node: GroupNode): Promise<string> {
   const flexDirection = (node.parent! as FrameNode).layoutMode === "VERTICAL" ? "column" : "row"
-  return `<div style="display: flex; flex-direction: ${flexDirection}">${await convertChildren(node.children)}</div>`
+  return `<div ${classAttribute(classForStyle({ display: "flex", "flex-direction": flexDirection }))}>${await convertChildren(node.children)}</div>`
 }
 
 async function convertTopLevelFrame(node: FrameNode | ComponentNode | InstanceNode): Promise<string> {
@@ -259,33 +918,424 @@ async function convertTopLevelFrame(node: FrameNode | ComponentNode | InstanceNo
 
   if (node.layoutMode === "VERTICAL") style['flex-direction'] = 'column'
 
-  const events = eventHandlingAttributes(node.reactions)
+  const events = eventHandlingAttributes(node, node.reactions)
   if (events.length > 0) style["cursor"] = "pointer"
+  const focusable = isClickable(node) ? `role="button" tabindex="0"` : ""
+
+  // The page itself is what scrolls, so fixed children stay put in the browser window
+  const [scrolling, fixed] = splitFixedChildren(node)
+  let children = await convertChildren(scrolling)
+  if (fixed.length > 0) children += `<div class="magicFixed">${await convertChildren(fixed)}</div>`
 
-  return `<div class="${frameIdToSize[node.id]}" ${events} style="${toStyleString(style)}">${await convertChildren(node.children)}</div>`
+  return `<div ${classAttribute(frameIdToBreakpoint[node.id] || "", classForStyle(style))} ${focusable} ${events}>${children}</div>`
+}
+
+const overlayPositions: { [type: string]: CSS } = {
+  CENTER: { "justify-content": "center", "align-items": "center" },
+  TOP_LEFT: { "justify-content": "flex-start", "align-items": "flex-start" },
+  TOP_CENTER: { "justify-content": "center", "align-items": "flex-start" },
+  TOP_RIGHT: { "justify-content": "flex-end", "align-items": "flex-start" },
+  BOTTOM_LEFT: { "justify-content": "flex-start", "align-items": "flex-end" },
+  BOTTOM_CENTER: { "justify-content": "center", "align-items": "flex-end" },
+  BOTTOM_RIGHT: { "justify-content": "flex-end", "align-items": "flex-end" },
+  // Positioned next to whatever opened it by the runtime
+  MANUAL: { "display": "block" },
+}
+
+async function convertOverlay(node: FrameNode | ComponentNode | InstanceNode): Promise<string> {
+  const layerStyle: CSS = { ...overlayPositions[node.overlayPositionType] }
+  if (node.overlayBackground.type === "SOLID_COLOR") {
+    const color = node.overlayBackground.color
+    layerStyle["background-color"] = colorToCSS(color, color.a)
+  }
+
+  const style: CSS = {
+    ...getOpacityStyle(node),
+    ...getBlendModeStyle(node),
+    ...getEffectsStyle(node),
+    ...getRoundedRectangleStyle(node),
+    ...await getStrokeStyleForPaints(node, node.strokeWeight, defaultForMixed(node.strokes, []), node.strokeStyleId),
+    ...await getBackgroundStyleForPaints(node, defaultForMixed(node.fills, [])),
+    ...getOverflowStyle(node),
+    width: `${node.width}px`,
+    height: `${node.height}px`,
+  }
+
+  convertingOverlay = true
+  try {
+    const events = eventHandlingAttributes(node, node.reactions)
+    if (events.length > 0) style["cursor"] = "pointer"
+
+    const closeOnClickOutside = node.overlayBackgroundInteraction === "CLOSE_ON_CLICK_OUTSIDE" ? "data-close-outside" : ""
+    const label = escapeAttribute(getAnnotations(node).label || layerName(node))
+    return `<div ${classAttribute("magicOverlay", classForStyle(layerStyle))} data-overlay-id="${node.id}" role="dialog" aria-modal="true" aria-label="${label}" ${closeOnClickOutside} hidden>` +
+      `<div ${classAttribute("magicOverlayContent", classForStyle(style))} tabindex="-1" ${events}>${blendedShadowLayers(node)}${await convertChildren(node.children)}</div></div>`
+  } finally {
+    convertingOverlay = false
+  }
 }
 
 async function convertFrame(node: FrameNode | ComponentNode | InstanceNode): Promise<string> {
+  if (node.type === "INSTANCE" || node.type === "COMPONENT") {
+    const variants = await convertVariants(node)
+    if (variants != null) return variants
+  }
   if (isVectorSubtree(node)) return await convertShape(node)
 
+  const frame = await frameElement(node, node, node.reactions)
+  return h(frame.tagName, node, frame.style, frame.layout, frame.attributes, frame.content)
+}
+
+interface FrameElement {
+  tagName: string
+  style: CSS
+  layout: Layout
+  attributes: string
+  content: string
+}
+
+// Draws a frame where layoutNode is. That's the frame itself, except for the other variants of an
+// instance, which are drawn where the instance is.
+async function frameElement(node: FrameNode | ComponentNode | InstanceNode, layoutNode: SceneNode & LayoutMixin & ConstraintMixin, reactions: ReadonlyArray<Reaction>): Promise<FrameElement> {
   const style: CSS = {
     ...getOpacityStyle(node),
+    ...getBlendModeStyle(node),
     ...getEffectsStyle(node),
     ...getRoundedRectangleStyle(node),
-    ...await getStrokeStyleForPaints(node.strokeWeight, defaultForMixed(node.strokes, [])),
+    ...await getStrokeStyleForPaints(node, node.strokeWeight, defaultForMixed(node.strokes, []), node.strokeStyleId),
     ...await getBackgroundStyleForPaints(node, 'fills' in node ? defaultForMixed(node.fills, []) : []),
   }
-  const layout = getLayoutStyle(node)
+  const layout = getLayoutStyle(layoutNode)
 
   await new Promise(resolve => setTimeout(resolve, 1));
 
-  const usePlaceholder = node.constraints.horizontal !== "STRETCH" && node.layoutMode === "NONE"
-  const children = await convertChildren(node.children)
-  const content = usePlaceholder ? `<div style="width: ${layout.inner.width}; height: ${node.height}px"></div>` + children : children
+  const usePlaceholder = layoutNode.constraints.horizontal !== "STRETCH" && node.layoutMode === "NONE"
+  const children = node.type === "INSTANCE" ? await convertInstanceChildren(node, style) : await convertFrameChildren(node, style)
+  const shadows = blendedShadowLayers(node)
+  const content = shadows + (usePlaceholder ? placeholder(layout.inner.width, layoutNode.height) + children : children)
 
-  const events = eventHandlingAttributes(node.reactions)
+  const events = eventHandlingAttributes(node, reactions)
   if (events.length > 0) style["cursor"] = "pointer"
-  return h("div", node.name, style, layout, events, content)
+  const element = elementForReactions(node)
+  return { tagName: element.tagName, style, layout, attributes: `${element.attributes} ${events}`, content }
+}
+
+// Variants of a component live side by side in a component set
+function isVariantOf(component: ComponentNode, variant: BaseNode): variant is ComponentNode {
+  const set = component.parent
+  return variant.type === "COMPONENT" && variant.id !== component.id && set != null && variant.parent != null &&
+    variant.parent.id === set.id && (set.type as string) === "COMPONENT_SET"
+}
+
+function componentOf(node: InstanceNode | ComponentNode): ComponentNode {
+  return node.type === "INSTANCE" ? node.masterComponent : node
+}
+
+// Interactive components change an instance into another variant of its component. Returns the
+// instance, or the component itself, and the variant it changes into.
+function variantChange(node: BaseNode, action: Action): { owner: InstanceNode | ComponentNode, variant: ComponentNode } | null {
+  if (action.type !== "NODE" || action.navigation === "OVERLAY" || action.destinationId == null) return null
+  const destination = figma.getNodeById(action.destinationId)
+  if (destination == null) return null
+
+  for (let owner: BaseNode | null = node; owner != null; owner = owner.parent) {
+    if ((owner.type === "INSTANCE" || owner.type === "COMPONENT") && isVariantOf(componentOf(owner), destination)) {
+      return { owner, variant: destination as ComponentNode }
+    }
+  }
+  return null
+}
+
+function variantDestination(node: BaseNode, action: Action): ComponentNode | null {
+  const change = variantChange(node, action)
+  return change && change.variant
+}
+
+// The reactions in an instance, or in one of its variants, that change it into another variant
+function variantReactions(root: InstanceNode | ComponentNode): { node: BaseNode, reaction: Reaction, variant: ComponentNode }[] {
+  const found: { node: BaseNode, reaction: Reaction, variant: ComponentNode }[] = []
+  const visit = (node: SceneNode) => {
+    if (!node.visible) return
+    if (node.type !== "SLICE") {
+      for (const reaction of node.reactions) {
+        const change = variantChange(node, reaction.action)
+        if (change != null && change.owner.id === root.id) found.push({ node, reaction, variant: change.variant })
+      }
+    }
+    if ('children' in node) node.children.forEach(visit)
+  }
+  visit(root)
+  return found
+}
+
+// Changes while hovering or pressing the instance as a whole, which CSS can follow
+function isStateReaction(root: BaseNode, found: { node: BaseNode, reaction: Reaction }): boolean {
+  return found.node.id === root.id && (found.reaction.trigger.type === "ON_HOVER" || found.reaction.trigger.type === "ON_PRESS")
+}
+
+function variantElement(frame: FrameElement, node: BaseNode, attributes: string): string {
+  return `<${frame.tagName} ${attributes} name="${escapeAttribute(node.name)}" ${frame.attributes}>${frame.content}</${frame.tagName}>`
+}
+
+// An instance is drawn along with every variant its reactions can change it into, all in the
+// same place. Changing while hovering or pressing the instance is left to CSS. Anything else
+// is up to the runtime, which shows the variant the instance changed into and hides the others.
+async function convertVariants(node: InstanceNode | ComponentNode): Promise<string | null> {
+  const reachable: (InstanceNode | ComponentNode)[] = [node]
+  const reactionsFor: { [id: string]: ReturnType<typeof variantReactions> } = {}
+  let onlyStates = true
+  for (let i = 0; i < reachable.length; i++) {
+    const found = reactionsFor[reachable[i].id] = variantReactions(reachable[i])
+    for (const change of found) {
+      if (!isStateReaction(reachable[i], change)) onlyStates = false
+      const seen = change.variant.id === componentOf(node).id || reachable.some(variant => variant.id === change.variant.id)
+      if (!seen) reachable.push(change.variant)
+    }
+  }
+  if (reachable.length === 1) return null
+
+  // The instance is always drawn first, and what it changes in its component carries over to the
+  // other variants
+  const layout = getLayoutStyle(node)
+  let overrides: { [key: string]: ComponentOverride } | null = null
+  const frameFor = async (variant: InstanceNode | ComponentNode, reactions: ReadonlyArray<Reaction>) => {
+    const frame = await convertingNode(variant, () => frameElement(variant, node, reactions))
+    if (variant === node && node.type === "INSTANCE" && await componentTemplate(node.masterComponent) != null) {
+      overrides = componentOverrides(componentParts[node.masterComponent.id] || {}, componentParts[node.id] || {})
+    } else if (variant !== node && overrides != null) {
+      frame.content = carryOverrides(componentOf(node), variant as ComponentNode, overrides, frame.content)
+    }
+    return frame
+  }
+  const inner = (frame: FrameElement, ...classNames: string[]) => {
+    return classAttribute("innerDiv", ...classNames, classForStyle({ ...layout.inner, ...frame.style }))
+  }
+
+  const stateVariant = (from: InstanceNode | ComponentNode, trigger: Trigger["type"]) => {
+    const change = reactionsFor[from.id].find(change => change.reaction.trigger.type === trigger)
+    return change ? reachable.find(variant => variant.id === change.variant.id) || null : null
+  }
+  const hover = stateVariant(node, "ON_HOVER")
+  const press = stateVariant(node, "ON_PRESS") || (hover && stateVariant(hover, "ON_PRESS"))
+  if (onlyStates && reachable.every(variant => variant === node || variant === hover || variant === press)) {
+    // The states' own reactions are what CSS takes care of
+    const withoutStates = (variant: InstanceNode | ComponentNode) => variant.reactions.filter(reaction => variantChange(variant, reaction.action) == null)
+    const defaultFrame = await frameFor(node, withoutStates(node))
+    const elements = [variantElement(defaultFrame, node, inner(defaultFrame, "magicDefaultVariant"))]
+    const containerClasses: string[] = []
+    if (hover) {
+      const frame = await frameFor(hover, withoutStates(hover))
+      elements.push(variantElement(frame, hover, inner(frame, "magicHoverVariant")))
+      containerClasses.push("magicHoverable")
+    }
+    if (press) {
+      const frame = await frameFor(press, withoutStates(press))
+      elements.push(variantElement(frame, press, inner(frame, "magicPressVariant")))
+      containerClasses.push("magicPressable")
+    }
+    return `<div ${classAttribute(layout.outerClass, ...containerClasses, classForStyle(layout.outer))}>${elements.join("")}</div>`
+  }
+
+  const elements: string[] = []
+  for (const variant of reachable) {
+    const frame = await frameFor(variant, variant.reactions)
+    const id = variant === node ? componentOf(node).id : variant.id
+    elements.push(variantElement(frame, variant, `${inner(frame)} data-variant="${id}"${variant === node ? "" : " hidden"}`))
+  }
+  return `<div ${classAttribute(layout.outerClass, "magicVariants", classForStyle(layout.outer))}>${elements.join("")}</div>`
+}
+
+// Names of the layers from root down to layer, which is how Figma matches layers across variants
+function layerPath(root: BaseNode, layer: BaseNode): string[] | null {
+  const names: string[] = []
+  for (let node: BaseNode | null = layer; node !== root; node = node.parent) {
+    if (node == null) return null
+    names.unshift(node.name)
+  }
+  return names
+}
+
+function layerAtPath(root: BaseNode, names: string[]): BaseNode | null {
+  let node: BaseNode | null = root
+  for (const name of names) {
+    const children: ReadonlyArray<BaseNode> = node && 'children' in node ? (node as ChildrenMixin).children : []
+    node = children.find(child => child.name === name) || null
+  }
+  return node
+}
+
+// Like Figma, keeps the instance's overrides of the layers that the variant doesn't change itself
+function carryOverrides(component: ComponentNode, variant: ComponentNode, overrides: { [key: string]: ComponentOverride }, html: string): string {
+  const parts = componentParts[component.id] || {}
+  const variantParts = componentParts[variant.id] || {}
+  const carried: { [key: string]: ComponentOverride } = {}
+  for (const key in overrides) {
+    const layer = figma.getNodeById(key)
+    const path = layer && layerPath(component, layer)
+    const match = path && layerAtPath(variant, path)
+    if (match == null || !variantParts[match.id] || !parts[key]) continue
+
+    const override = overrides[key]
+    const part = parts[key]
+    const variantPart = variantParts[match.id]
+    const kept: ComponentOverride = {}
+    if (override.hidden) kept.hidden = true
+    if (override.class !== undefined && variantPart.className === part.className) kept.class = override.class
+    if (override.content !== undefined && variantPart.content === part.content) kept.content = override.content
+    if (Object.keys(kept).length > 0) carried[match.id] = kept
+  }
+  return applyComponentOverrides(html, variantParts, carried)
+}
+
+async function convertFrameChildren(node: FrameNode | ComponentNode | InstanceNode, style: CSS): Promise<string> {
+  if (node.overflowDirection === "NONE" || node.layoutMode !== "NONE") {
+    // Auto layout frames have to stay the flex container of their children, so they scroll
+    // themselves, without fixed children
+    Object.assign(style, getOverflowStyle(node))
+    return await convertChildren(node.children)
+  }
+
+  // The content scrolls inside a layer covering the frame, with the fixed children above it
+  const [scrolling, fixed] = splitFixedChildren(node)
+  const scrollStyle: CSS = { position: "absolute", top: 0, left: 0, width: "100%", height: "100%", ...getOverflowStyle(node) }
+  style["overflow"] = "hidden"
+  return `<div ${classAttribute(classForStyle(scrollStyle))}>${await convertChildren(scrolling)}</div>${await convertChildren(fixed)}`
+}
+
+interface ComponentTemplate {
+  tagName: string
+  html: string
+
+  // Names of the layers instances can change, by their key
+  partNames: { [key: string]: string }
+}
+
+function componentTagName(component: ComponentNode): string {
+  // Custom element names need a dash, and the id keeps components with the same name apart
+  return `magic-${slug(component.name) || "component"}-${sha1(component.id).slice(0, 6)}`
+}
+
+// Instances change a layer through attributes named after it, so names are unique within the
+// component. Names starting with aria would make attributes with a meaning of their own. Layers
+// are named in the order of the markup, which doesn't depend on the order they finished
+// converting in.
+function partNames(html: string, parts: { [key: string]: ComponentPart }): { [key: string]: string } {
+  const names: { [key: string]: string } = {}
+  const taken: { [name: string]: boolean } = { aria: true }
+  const pattern = / data-part="([^"]*)"/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html)) != null) {
+    const key = match[1]
+    if (!parts[key] || names[key] != null) continue
+    const layer = figma.getNodeById(key)
+    const layerSlug = slug(layer ? layer.name : "")
+    const base = /^[a-z]/.test(layerSlug) ? layerSlug : layerSlug === "" ? "layer" : `layer-${layerSlug}`
+    names[key] = uniqueName(base, taken)
+  }
+  return names
+}
+
+// Null if the component can't be converted. Its instances are drawn in full instead, as they
+// would be if the component weren't shared, so one broken component doesn't stop the whole page.
+async function convertComponentTemplate(component: ComponentNode): Promise<ComponentTemplate | null> {
+  try {
+    return await convertingNode(component, async () => {
+      const html = await convertFrameChildren(component, {})
+      return { tagName: componentTagName(component), html, partNames: partNames(html, componentParts[component.id] || {}) }
+    })
+  } catch (e) {
+    console.error("Failed to convert component", component, e)
+    warn(component, "Could not be converted, so its instances are written out in full")
+    return null
+  }
+}
+
+function componentTemplate(component: ComponentNode): Promise<ComponentTemplate | null> {
+  if (!componentTemplates[component.id]) {
+    componentTemplates[component.id] = convertComponentTemplate(component)
+  }
+  return componentTemplates[component.id]
+}
+
+// The changes that turn the component's layers into the instance's, or null if the instance has
+// layers the component doesn't
+function componentOverrides(componentParts: { [key: string]: ComponentPart }, instanceParts: { [key: string]: ComponentPart }): { [key: string]: ComponentOverride } | null {
+  for (const key in instanceParts) {
+    if (!componentParts[key]) return null
+  }
+
+  const overrides: { [key: string]: ComponentOverride } = {}
+  for (const key in componentParts) {
+    const part = componentParts[key]
+    const instancePart = instanceParts[key]
+    if (!instancePart) {
+      overrides[key] = { hidden: true }
+      continue
+    }
+
+    const override: ComponentOverride = {}
+    if (instancePart.className !== part.className) override.class = instancePart.className
+    // Layers containing other layers change through them instead
+    if (instancePart.content !== part.content && part.content.indexOf(` data-part="`) === -1) {
+      override.content = instancePart.content
+    }
+    if (Object.keys(override).length > 0) overrides[key] = override
+  }
+  return overrides
+}
+
+// Does to the template's markup what the custom element does to its elements
+function applyComponentOverrides(html: string, parts: { [key: string]: ComponentPart }, overrides: { [key: string]: ComponentOverride }): string {
+  const partHtml = (key: string) => parts[key].open + parts[key].content + parts[key].close
+  const keys = Object.keys(overrides)
+
+  // Outermost first, taking the layers inside along with them
+  const hidden = keys.filter(key => overrides[key].hidden).sort((a, b) => partHtml(b).length - partHtml(a).length)
+  for (const key of hidden) {
+    html = html.replace(partHtml(key), "")
+  }
+
+  for (const key of keys) {
+    const override = overrides[key]
+    const part = parts[key]
+    if (override.hidden) continue
+    if (override.content !== undefined) {
+      html = html.replace(partHtml(key), () => part.open + override.content + part.close)
+    }
+    if (override.class !== undefined) {
+      html = html.replace(`class="${part.className}" data-part="${key}"`, () => `class="${override.class}" data-part="${key}"`)
+    }
+  }
+  return html
+}
+
+// Instances are drawn by a custom element for their component, defined once for the whole site,
+// with the instance's changes to the component's layers passed along as attributes. Instances
+// that overrides can't describe are written out in full. Reactions are part of the component's
+// markup, as their actions are the same wherever it's used.
+async function convertInstanceChildren(node: InstanceNode, style: CSS): Promise<string> {
+  const children = await convertFrameChildren(node, style)
+  const component = node.masterComponent
+
+  const template = await componentTemplate(component)
+  if (template == null) return children
+  const parts = componentParts[component.id] || {}
+  const overrides = componentOverrides(parts, componentParts[node.id] || {})
+  if (overrides == null || applyComponentOverrides(template.html, parts, overrides) !== children) return children
+
+  // Layers in the components inside this one are changed through those components
+  components[template.tagName] = template.html.replace(/ data-part="([^"]*)"/g, (_, key) => {
+    return template.partNames[key] ? ` data-part="${template.partNames[key]}"` : ""
+  })
+
+  const attributes = Object.keys(template.partNames).filter(key => overrides[key]).map(key => {
+    const name = template.partNames[key]
+    const override = overrides[key]
+    if (override.hidden) return ` ${name}-hidden`
+    return (override.class !== undefined ? ` ${name}-class="${escapeAttribute(override.class)}"` : "") +
+      (override.content !== undefined ? ` ${name}-content="${escapeAttribute(override.content)}"` : "")
+  })
+  return `<${template.tagName}${attributes.join("")}></${template.tagName}>`
 }
 
 function arrayBufferToString(buffer: ArrayBuffer): string {
@@ -297,26 +1347,51 @@ async function convertRectangle(node: RectangleNode): Promise<string> {
     return await convertShape(node)
   }
 
+  const imagePaint = singleImagePaint(node)
   const style: CSS = {
     ...getOpacityStyle(node),
-    ...getEffectsStyle(node),
+    ...getBlendModeStyle(node),
+    ...getEffectsStyle(node, imagePaint != null),
     ...getRoundedRectangleStyle(node),
-    ...await getStrokeStyleForPaints(node.strokeWeight, defaultForMixed(node.strokes, [])),
-    ...await getBackgroundStyleForPaints(node, defaultForMixed(node.fills, [])),
+    ...await getStrokeStyleForPaints(node, node.strokeWeight, defaultForMixed(node.strokes, []), node.strokeStyleId),
+    ...(imagePaint ? {} : await getBackgroundStyleForPaints(node, defaultForMixed(node.fills, []))),
   }
   const layout = getLayoutStyle(node)
   const usePlaceholder = node.constraints.horizontal !== "STRETCH"
-  const events = eventHandlingAttributes(node.reactions)
+  const events = eventHandlingAttributes(node, node.reactions)
   if (events.length > 0) style["cursor"] = "pointer"
-  return h("div", node.name, style, layout, events, usePlaceholder ? `<div style="width: ${node.width}; height: ${node.height}px"></div>` : "")
+
+  let content = usePlaceholder ? placeholder(node.width, node.height) : ""
+  if (imagePaint) {
+    const { url } = await addImageForPaint(node, imagePaint, false)
+    const imageStyle: CSS = {
+      position: "absolute",
+      top: 0,
+      left: 0,
+      width: "100%",
+      height: "100%",
+      "object-fit": imagePaint.scaleMode === "FIT" ? "contain" : "cover",
+      "border-radius": "inherit",
+    }
+    if (imagePaint.opacity != null && imagePaint.opacity < 1) imageStyle["opacity"] = `${imagePaint.opacity}`
+    content = `<img ${classAttribute(classForStyle(imageStyle))} src="${url}" alt="${escapeAttribute(altTextForNode(node))}">` + content
+  }
+  content += blendedShadowLayers(node)
+
+  const element = elementForReactions(node)
+  const hasImageFill = defaultForMixed(node.fills, []).some(paint => paint.type === "IMAGE" && paint.visible !== false)
+  const image = hasImageFill && !imagePaint ? imageAttributes(node, element, false) : ""
+  return h(element.tagName, node, style, layout, `${element.attributes} ${image} ${events}`, content)
 }
 
 async function convertShape(node: BaseNode & DefaultShapeMixin): Promise<string> {
   // We don't include opacity here because it gets baked into the node
 
-  const events = node.reactions ? eventHandlingAttributes(node.reactions) : ''
+  const events = node.reactions ? eventHandlingAttributes(node, node.reactions) : ''
+  const element = elementForReactions(node as SceneNode)
+  const image = imageAttributes(node as SceneNode, element, true)
   const layout = getLayoutStyle(node)
-  let style: CSS = getOpacityStyle(node)
+  let style: CSS = { ...getOpacityStyle(node), ...getBlendModeStyle(node) }
   if (events.length > 0) style["cursor"] = "pointer"
 
   let hasImage = false
@@ -330,28 +1405,68 @@ async function convertShape(node: BaseNode & DefaultShapeMixin): Promise<string>
     }
   }
 
-  if (!hasImage) {
+  // Designers who set up raster exports for a layer get those instead of an SVG
+  const rasterExports = rasterExportSettings(node)
+  const wantsRaster = rasterExports.length > 0 && !node.exportSettings.some(setting => setting.format === "SVG")
+
+  if (!hasImage && !wantsRaster) {
     try {
       const svg = await node.exportAsync({ format: 'SVG' })
-      return h("div", node.name, style, layout, events, arrayBufferToString(svg))
+      return h(element.tagName, node, style, layout, `${element.attributes} ${image} ${events}`, arrayBufferToString(svg))
     } catch (e) {
       console.error("Failed to convert shape to SVG, trying PNG", node, e)
+      warn(node, "Could not be exported as a vector, so it is shown as an image")
     }
   }
 
   try {
-    const png = await node.exportAsync({ format: 'PNG' })
-    const hash = `_${Math.random()}`
-    const path = `/images/${hash}`
-    images[hash] = { bytes: png, path }
-    style["background-image"] = `url(${path})`
-    return h("div", node.name, style, layout, events, `<div style="width: ${node.width}; height: ${node.height}px"></div>`)
+    const sources: { url: string, scale: number }[] = []
+    for (const setting of rasterExports.length > 0 ? rasterExports : defaultRasterExports) {
+      const bytes = await node.exportAsync(setting)
+      const format = setting.format === "JPG" ? "jpg" : "png"
+      const { url } = addImageBytes(bytes, format)
+      sources.push({ url, scale: exportScale(node, setting) })
+    }
+
+    // The exports are drawn at their natural size, which the density descriptors scale back down
+    // to the 1x size of the layer.
+    const imageStyle: CSS = { position: "absolute", top: 0, left: 0 }
+    const srcset = sources.map(source => `${source.url} ${Math.round(source.scale * 100) / 100}x`).join(", ")
+    const img = `<img ${classAttribute(classForStyle(imageStyle))} src="${sources[0].url}" srcset="${srcset}" alt="">`
+    return h(element.tagName, node, style, layout, `${element.attributes} ${image} ${events}`, img + placeholder(node.width, node.height))
   } catch (e) {
     console.error("Failed to convert shape to PNG", node, e)
+    warn(node, "Could not be exported, so it is left out")
     return ""
   }
 }
 
+const defaultRasterExports: ExportSettingsImage[] = [1, 2, 3].map(scale => {
+  return { format: "PNG", constraint: { type: "SCALE", value: scale } } as ExportSettingsImage
+})
+
+// The PNG and JPG exports configured on a node, one per pixel density, from smallest to largest
+function rasterExportSettings(node: BaseNode & DefaultShapeMixin): ExportSettingsImage[] {
+  const byScale: { [scale: string]: ExportSettingsImage } = {}
+  for (const setting of node.exportSettings || []) {
+    if (setting.format !== "PNG" && setting.format !== "JPG") continue
+    const scale = exportScale(node, setting)
+    if (scale > 0 && !byScale[scale]) byScale[scale] = setting
+  }
+  return Object.keys(byScale).map(scale => byScale[scale]).sort((a, b) => exportScale(node, a) - exportScale(node, b))
+}
+
+function exportScale(node: BaseNode & DefaultShapeMixin, setting: ExportSettingsImage): number {
+  const constraint = setting.constraint
+  if (constraint == null) return 1
+
+  switch (constraint.type) {
+    case "SCALE": return constraint.value
+    case "WIDTH": return constraint.value / node.width
+    case "HEIGHT": return constraint.value / node.height
+  }
+}
+
 function colorToCSS(rgb: RGB, opacity: number) {
   const {r,g,b} = rgb
   return `rgba(${255.0 * r}, ${255.0 * g}, ${255.0 * b}, ${opacity})`
@@ -360,144 +1475,376 @@ function colorToCSS(rgb: RGB, opacity: number) {
 function colorFromPaints(fills: ReadonlyArray<Paint>): string | null {
   const firstColor = fills.find(f => f.type === 'SOLID' && f.visible) as SolidPaint
   if (firstColor == null) return null
-  return colorToCSS(firstColor.color, firstColor.opacity || 1.0)
+  return colorToCSS(firstColor.color, firstColor.opacity != null ? firstColor.opacity : 1)
 }
 
 function defaultForMixed<T>(t: T | PluginAPI['mixed'], defaultVal: T): T {
   return t === figma.mixed ? defaultVal  : t
 }
 
-function numericWeightFromStyle(style: string): number {
-  // TODO(jlfwong): This is a crummy heuristic that'll be wrong in a variety of
-  // circumstances. It would be better if the plugin APIs exposed the numeric
-  // font weight.
-  //
-  // For example, Inter Regular seems to match up with weight 300 from Google
-  // Fonts? This is maybe a versioning issue.
-  switch (style.replace(/\s*italic\s*/i, "")) {
-    case "Thin":
-      return 100
+function getSharedStyle(styleId: string | PluginAPI['mixed']): BaseStyle | null {
+  if (typeof styleId !== "string" || styleId === "") return null
+  return figma.getStyleById(styleId)
+}
+
+// Shared styles are referred to by a hash of their id while converting, and named once all the
+// styles the page uses are known. Figma style names are free-form, so two styles can slugify to
+// the same thing; telling them apart in the order of their ids rather than the order they were
+// found keeps the names the same from one conversion to the next.
+function nameForSharedStyle(style: BaseStyle, prefix: string): string {
+  sharedStyles[style.id] = { name: style.name, prefix }
+  return `shared-style-${sha1(style.id).slice(0, 8)}`
+}
 
-    case "Extra Light":
-    case "Extra-light":
-      return 200
+// Replaces the references in generated markup and CSS with stable names such as
+// "color-brand-primary" for a style called "Brand/Primary"
+function nameSharedStyles(): (text: string) => string {
+  const names: { [ref: string]: string } = {}
+  const taken: { [name: string]: boolean } = {}
+  for (const styleId of Object.keys(sharedStyles).sort()) {
+    const { name: styleName, prefix } = sharedStyles[styleId]
+    names[`shared-style-${sha1(styleId).slice(0, 8)}`] = uniqueName(`${prefix}-${slug(styleName) || "style"}`, taken)
+  }
+  return text => text.replace(/shared-style-[0-9a-f]{8}/g, ref => names[ref] || ref)
+}
 
-    case "Light":
-      return 300
+interface PaintVariable {
+  paint: SolidPaint | GradientPaint
+  value: string
+}
 
-    case "Regular":
-      return 400
+// Solid and gradient paint styles become custom properties. Image paint styles are baked in like
+// any other fill, since the image still has to be uploaded alongside the node.
+function paintStyleVariable(styleId: string | PluginAPI['mixed']): PaintVariable | null {
+  const style = getSharedStyle(styleId)
+  if (style == null || style.type !== "PAINT") return null
+
+  // A custom property can only stand for one paint, so styles stacking several are baked in
+  const paints = (style as PaintStyle).paints.filter(paint => paint.visible !== false)
+  if (paints.length !== 1) return null
+  const paint = paints[0]
+
+  let value: string
+  switch (paint.type) {
+    case "SOLID":
+      value = colorToCSS(paint.color, paint.opacity != null ? paint.opacity : 1)
+      break
+    case "GRADIENT_LINEAR":
+      value = paintToLinearGradient(paint)
+      break
+    case "GRADIENT_RADIAL":
+      value = paintToRadialGradient(paint)
+      break
+    case "GRADIENT_ANGULAR":
+      value = paintToAngularGradient(paint)
+      break
+    default:
+      // Diamonds are sized in pixels, so they can't be shared between layers of different sizes
+      return null
+  }
 
-    case "Medium":
-      return 500
+  const name = `--${nameForSharedStyle(style, paint.type === "SOLID" ? "color" : "gradient")}`
+  cssVariables[name] = value
+  return { paint, value: `var(${name})` }
+}
 
-    case "Semi Bold":
-    case "Semi-bold":
-      return 600
+function effectStyleVariable(styleId: string): string | null {
+  const style = getSharedStyle(styleId)
+  if (style == null || style.type !== "EFFECT") return null
 
-    case "Bold":
-      return 700
+  const shadows: string[] = []
+  for (const effect of (style as EffectStyle).effects) {
+    if (effect.visible && (effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW")) {
+      shadows.push(shadowToCSS(effect))
+    }
+  }
+  if (shadows.length === 0) return null
 
-    case "Extra Bold":
-    case "Extra-bold":
-      return 800
+  const name = `--${nameForSharedStyle(style, "shadow")}`
+  cssVariables[name] = shadows.join(", ")
+  return `var(${name})`
+}
 
-    case "Black":
-      return 900
+// Text styles become reusable classes rather than variables, since they set several properties
+function textStyleClass(styleId: string | PluginAPI['mixed']): string | null {
+  const style = getSharedStyle(styleId)
+  if (style == null || style.type !== "TEXT") return null
+
+  const textStyle = style as TextStyle
+  const className = nameForSharedStyle(style, "text")
+  classStyles[className] = {
+    ...fontNameStyle(textStyle.fontName),
+    ...textDecorationStyle(textStyle.textDecoration),
+    "font-size": `${textStyle.fontSize}px`,
+    ...textCaseStyle(textStyle.textCase),
+    ...lineHeightStyle(textStyle.lineHeight),
+    ...letterSpacingStyle(textStyle.letterSpacing),
   }
-  return 400
+  return className
 }
 
-function convertTextRange(node: TextNode, start: number, end: number): string {
-  const style: CSS = {}
+// Style names spell the same weight many ways ("SemiBold", "Semi Bold", "Demi", "600"), often
+// next to a width or slope ("Condensed Bold Italic"). Longer names come first so that "extrabold"
+// isn't read as "bold".
+const fontWeights: [string, number][] = [
+  ["hairline", 100],
+  ["thin", 100],
+  ["extralight", 200],
+  ["ultralight", 200],
+  ["semibold", 600],
+  ["demibold", 600],
+  ["extrabold", 800],
+  ["ultrabold", 800],
+  ["light", 300],
+  ["regular", 400],
+  ["normal", 400],
+  ["book", 400],
+  ["roman", 400],
+  ["medium", 500],
+  ["demi", 600],
+  ["bold", 700],
+  ["black", 900],
+  ["heavy", 900],
+]
 
-  const color = colorFromPaints(defaultForMixed(node.getRangeFills(start, end), []))
-  if (color != null) {
-    style['color'] = color
+function numericWeightFromStyle(style: string): number {
+  // The plugin APIs don't expose the numeric font weight, so this has to guess from the name
+  const name = style.toLowerCase().replace(/[\s_-]+/g, "")
+  const numeric = /\b([1-9]00)\b/.exec(style)
+  if (numeric) return parseInt(numeric[1])
+
+  for (const [word, weight] of fontWeights) {
+    if (name.indexOf(word) !== -1) return weight
   }
+  return 400
+}
 
-  const fontName = defaultForMixed(node.getRangeFontName(start, end), null)
-  if (fontName != null) {
-    let fontWeightNumeric = numericWeightFromStyle(fontName.style)
-    let italic = (/italic/i).exec(fontName.style) != null
+function fontFallback(family: string): string {
+  const configured = options.fontFallbacks[family]
+  if (configured) return configured
+  if (/mono|code|courier/i.test(family)) return "monospace"
+  if (/serif/i.test(family) && !/sans/i.test(family)) return "serif"
+  return "sans-serif"
+}
 
-    const googleFontName = `${fontName.family}:${italic ? 'ital,' : ''}wght@${fontWeightNumeric}`
-    fonts[googleFontName] = true
-    style['font-family'] = `"${fontName.family}"`
-    if (fontWeightNumeric !== 400) {
-      style['font-weight'] = `${fontWeightNumeric}`
-    }
-    if (italic) {
-      style['font-style'] = 'italic'
-    }
+function fontNameStyle(fontName: FontName): CSS {
+  const style: CSS = {}
+  let fontWeightNumeric = numericWeightFromStyle(fontName.style)
+  let italic = (/italic|oblique/i).exec(fontName.style) != null
+
+  const googleFontName = `${fontName.family}:${italic ? 'ital,' : ''}wght@${fontWeightNumeric}`
+  fonts[googleFontName] = true
+  style['font-family'] = `"${fontName.family}", ${fontFallback(fontName.family)}`
+  if (fontWeightNumeric !== 400) {
+    style['font-weight'] = `${fontWeightNumeric}`
   }
+  if (italic) {
+    style['font-style'] = 'italic'
+  }
+  return style
+}
 
-  const decoration = defaultForMixed(node.getRangeTextDecoration(start, end), null)
+function textDecorationStyle(decoration: TextDecoration | null): CSS {
   if (decoration === "UNDERLINE") {
-    style['text-decoration'] = 'underline'
+    return { 'text-decoration': 'underline' }
   } else if (decoration === "STRIKETHROUGH") {
-    style['text-decoration'] = 'line-through'
-  }
-
-  const fontSize = defaultForMixed(node.getRangeFontSize(start, end), null)
-  if (fontSize != null) {
-    style['font-size'] = `${fontSize}px`
+    return { 'text-decoration': 'line-through' }
   }
+  return {}
+}
 
-  const textCase = defaultForMixed(node.getRangeTextCase(start, end), null)
+function textCaseStyle(textCase: TextCase | null): CSS {
   if (textCase === "LOWER") {
-    style['text-transform'] = 'lowercase'
+    return { 'text-transform': 'lowercase' }
   } else if (textCase === "UPPER") {
-    style['text-transform'] = 'uppercase'
+    return { 'text-transform': 'uppercase' }
   } else if (textCase === "TITLE") {
-    style['text-transform'] = 'capitalize'
+    return { 'text-transform': 'capitalize' }
   }
+  return {}
+}
 
-  const lineHeight = defaultForMixed(node.getRangeLineHeight(start, end), null)
+function lineHeightStyle(lineHeight: LineHeight | null): CSS {
   if (lineHeight && lineHeight.unit === "PERCENT") {
-    style['line-height'] = `${lineHeight.value}%`
+    return { 'line-height': `${lineHeight.value}%` }
   } else if (lineHeight && lineHeight.unit === "PIXELS") {
-    style['line-height'] = `${lineHeight.value}px`
+    return { 'line-height': `${lineHeight.value}px` }
+  }
+  return {}
+}
+
+function letterSpacingStyle(letterSpacing: LetterSpacing | null): CSS {
+  if (letterSpacing == null || letterSpacing.value === 0) return {}
+  if (letterSpacing.unit === "PERCENT") {
+    return { 'letter-spacing': `${letterSpacing.value / 100}em` }
+  }
+  return { 'letter-spacing': `${letterSpacing.value}px` }
+}
+
+function convertTextRange(node: TextNode, start: number, end: number): string {
+  let style: CSS = {}
+
+  const fillVariable = paintStyleVariable(node.getRangeFillStyleId(start, end))
+  if (fillVariable != null && fillVariable.paint.type === "SOLID") {
+    style['color'] = fillVariable.value
+  } else {
+    const color = colorFromPaints(defaultForMixed(node.getRangeFills(start, end), []))
+    if (color != null) {
+      style['color'] = color
+    }
+  }
+
+  // Everything a text style defines comes from its class instead
+  const textClass = textStyleClass(node.getRangeTextStyleId(start, end))
+  if (textClass == null) {
+    const fontName = defaultForMixed(node.getRangeFontName(start, end), null)
+    if (fontName != null) {
+      style = { ...style, ...fontNameStyle(fontName) }
+    }
+
+    style = { ...style, ...textDecorationStyle(defaultForMixed(node.getRangeTextDecoration(start, end), null)) }
+
+    const fontSize = defaultForMixed(node.getRangeFontSize(start, end), null)
+    if (fontSize != null) {
+      style['font-size'] = `${fontSize}px`
+    }
+
+    style = {
+      ...style,
+      ...textCaseStyle(defaultForMixed(node.getRangeTextCase(start, end), null)),
+      ...lineHeightStyle(defaultForMixed(node.getRangeLineHeight(start, end), null)),
+      ...letterSpacingStyle(defaultForMixed(node.getRangeLetterSpacing(start, end), null)),
+    }
   }
 
-  return `<span style='${toStyleString(style)}'>${node.characters.substring(start, end).replace("\n", "<br><br>")}</span>`
+  // Line separators are the soft breaks typed with shift-enter
+  const text = escapeText(node.characters.substring(start, end)).replace(/\u2028/g, "<br>")
+  return `<span ${classAttribute(textClass || "", classForStyle(style))}>${text}</span>`
+}
+
+// Ranges of characters that share all of their styling
+function textSegments(node: TextNode): [number, number][] {
+  const numChars = node.characters.length
+  if (node.fills !== figma.mixed && node.fontSize !== figma.mixed && node.letterSpacing !== figma.mixed &&
+      node.lineHeight !== figma.mixed && node.textCase !== figma.mixed && node.textDecoration !== figma.mixed &&
+      node.fontName !== figma.mixed && node.textStyleId !== figma.mixed && node.fillStyleId !== figma.mixed) {
+    return [[0, numChars]]
+  }
+
+  const segments: [number, number][] = []
+  let start = 0
+  let end = 1
+  while (end < numChars) {
+    const check = end + 1
+    if (node.getRangeFills(start, check) === figma.mixed || node.getRangeFontSize(start, check) === figma.mixed ||
+        node.getRangeLetterSpacing(start, check) === figma.mixed || node.getRangeLineHeight(start, check) === figma.mixed ||
+        node.getRangeTextCase(start, check) === figma.mixed || node.getRangeTextDecoration(start, check) === figma.mixed ||
+        node.getRangeFontName(start, check) === figma.mixed || node.getRangeTextStyleId(start, check) === figma.mixed ||
+        node.getRangeFillStyleId(start, check) === figma.mixed) {
+      segments.push([start, end])
+      start = end
+    }
+    end++
+  }
+  segments.push([start, end])
+  return segments
+}
+
+// Figma has no lists, so they're recognized by paragraphs that start with a bullet or a number
+const bulletPattern = /^\s*[•◦▪‣⁃–*-]\s/
+const numberPattern = /^\s*\d+[.)]\s/
+
+function listTagForParagraph(text: string): "ul" | "ol" | null {
+  if (bulletPattern.test(text)) return "ul"
+  if (numberPattern.test(text)) return "ol"
+  return null
+}
+
+// Each line of text is a paragraph, and runs of bulleted or numbered paragraphs become lists. The
+// markers stay part of the text so the list looks the way it was designed. Headings, links and
+// buttons only allow phrasing content, so there the paragraphs are block-level spans instead.
+function convertParagraphs(node: TextNode, phrasingOnly: boolean): string {
+  const segments = textSegments(node)
+  const paragraphTag = phrasingOnly ? "span" : "p"
+
+  const paragraphStyle = (first: boolean): CSS => {
+    const style: CSS = { margin: first || node.paragraphSpacing === 0 ? 0 : `${node.paragraphSpacing}px 0 0 0` }
+    if (node.paragraphIndent !== 0) style["text-indent"] = `${node.paragraphIndent}px`
+    if (phrasingOnly) style["display"] = "block"
+    return style
+  }
+  const listStyle: CSS = { margin: 0, padding: 0, "list-style": "none" }
+
+  let html = ""
+  let openList: "ul" | "ol" | null = null
+  let offset = 0
+  node.characters.split("\n").forEach((text, i) => {
+    const start = offset
+    const end = offset + text.length
+    offset = end + 1
+
+    const content = segments
+      .filter(([segmentStart, segmentEnd]) => segmentStart < end && segmentEnd > start)
+      .map(([segmentStart, segmentEnd]) => convertTextRange(node, Math.max(segmentStart, start), Math.min(segmentEnd, end)))
+      .join("") || "<br>"
+
+    const listTag = phrasingOnly ? null : listTagForParagraph(text)
+    if (openList != null && listTag !== openList) {
+      html += `</${openList}>`
+      openList = null
+    }
+    if (listTag != null && openList == null) {
+      // Safari drops the list role from lists without bullets unless it's given back
+      html += `<${listTag} ${classAttribute(classForStyle(listStyle))} role="list">`
+      openList = listTag
+    }
+
+    const tag = listTag != null ? "li" : paragraphTag
+    html += `<${tag} ${classAttribute(classForStyle(paragraphStyle(i === 0)))}>${content}</${tag}>`
+  })
+  if (openList != null) html += `</${openList}>`
+
+  return html
 }
 
 function convertText(node: TextNode): string {
   const style = {
     ...getOpacityStyle(node),
+    ...getBlendModeStyle(node),
     ...getEffectsStyle(node),
   }
 
   style['text-align'] = node.textAlignHorizontal.toLowerCase()
 
-  const events = eventHandlingAttributes(node.reactions)
+  const events = eventHandlingAttributes(node, node.reactions)
   if (events.length > 0) style["cursor"] = "pointer"
 
-  let content = ""
-  const numChars = node.characters.length
-  if (node.fills !== figma.mixed && node.fontSize !== figma.mixed && node.letterSpacing !== figma.mixed && 
-      node.lineHeight !== figma.mixed && node.textCase !== figma.mixed && node.textDecoration !== figma.mixed &&
-      node.fontName !== figma.mixed) {
-    content = convertTextRange(node, 0, numChars)
-  } else {
-    let start = 0
-    let end = 1
-    while (end < numChars) {
-      const check = end + 1
-      if (node.getRangeFills(start, check) === figma.mixed || node.getRangeFontSize(start, check) === figma.mixed ||
-          node.getRangeLetterSpacing(start, check) === figma.mixed || node.getRangeLineHeight(start, check) === figma.mixed ||
-          node.getRangeTextCase(start, check) === figma.mixed || node.getRangeTextDecoration(start, check) === figma.mixed ||
-          node.getRangeFontName(start, check) === figma.mixed) {
-        content += convertTextRange(node, start, end)
-        start = end
-      }
-      end++
+  // Inside a link or button, the text can only be phrasing content too
+  const insideClickable = hasClickableAncestor(node)
+  let element = elementForReactions(node)
+  if (element.tagName === "div" && !insideClickable) {
+    const level = headingLevel(node)
+    if (level != null) element = { tagName: `h${level}`, attributes: "" }
+  }
+
+  const layout = getLayoutStyle(node)
+
+  // Fonts never measure quite the same in browsers, so text boxes that hug their text in Figma
+  // keep hugging it rather than keeping the size it had there
+  if (node.textAutoResize === "WIDTH_AND_HEIGHT") {
+    style["white-space"] = "nowrap"
+    for (const key of ["width", "min-width", "height", "min-height"]) {
+      if (/px$/.test(`${layout.inner[key]}`)) delete layout.inner[key]
     }
-    content += convertTextRange(node, start, end)
+  } else if (node.textAutoResize === "HEIGHT") {
+    delete layout.inner["height"]
   }
 
-  return h("div", node.name, style, getLayoutStyle(node), events, `<div>${content}</div>`)
+  // The wrapper is a flex item either way, so a span lays out like the div it replaces
+  const phrasingOnly = element.tagName !== "div" || insideClickable
+  const wrapper = phrasingOnly ? "span" : "div"
+  const content = convertParagraphs(node, phrasingOnly)
+  return h(element.tagName, node, style, layout, `${element.attributes} ${events}`, `<${wrapper}>${content}</${wrapper}>`)
 }
 
 type CSS = { [key: string]: string | number }
@@ -719,18 +2066,140 @@ function getOpacityStyle(node: BlendMixin): CSS {
   }
 }
 
-function getEffectsStyle(node: BaseNode & BlendMixin): CSS {
+const blendModes: { [mode in BlendMode]?: string } = {
+  PASS_THROUGH: "normal",
+  NORMAL: "normal",
+  DARKEN: "darken",
+  MULTIPLY: "multiply",
+  COLOR_BURN: "color-burn",
+  LIGHTEN: "lighten",
+  SCREEN: "screen",
+  COLOR_DODGE: "color-dodge",
+  OVERLAY: "overlay",
+  SOFT_LIGHT: "soft-light",
+  HARD_LIGHT: "hard-light",
+  DIFFERENCE: "difference",
+  EXCLUSION: "exclusion",
+  HUE: "hue",
+  SATURATION: "saturation",
+  COLOR: "color",
+  LUMINOSITY: "luminosity",
+}
+
+// The linear burn and dodge modes have no CSS equivalent
+function blendModeToCSS(blendMode: BlendMode): string | null {
+  return blendModes[blendMode] || null
+}
+
+function getBlendModeStyle(node: BlendMixin): CSS {
+  const blendMode = blendModeToCSS(node.blendMode)
+  if (blendMode == null || blendMode === "normal") return {}
+  return { "mix-blend-mode": blendMode }
+}
+
+// Newer versions of the plugin API include the spread of shadows
+type ShadowWithSpread = ShadowEffect & { readonly spread?: number }
+
+function shadowToCSS(effect: ShadowEffect, includeSpread: boolean = true): string {
+  const spread = (effect as ShadowWithSpread).spread
+  const spreadCSS = includeSpread && spread ? ` ${spread}px` : ""
+  return `${effect.type === "INNER_SHADOW" ? "inset " : ""}${effect.offset.x}px ${effect.offset.y}px ${effect.radius}px${spreadCSS} ${colorToCSS(effect.color, effect.color.a)}`
+}
+
+// Like blur(), drop-shadow() takes a standard deviation rather than a blur radius, and it has no spread
+function dropShadowToCSS(effect: ShadowEffect): string {
+  return `drop-shadow(${effect.offset.x}px ${effect.offset.y}px ${effect.radius / 2}px ${colorToCSS(effect.color, effect.color.a)})`
+}
+
+// A box-shadow can't be blended apart from the element casting it, so shadows with a blend mode
+// are drawn by layers of their own, one per blend mode
+function isBlendedShadow(effect: Effect): effect is ShadowEffect {
+  return (effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW") && effect.visible &&
+    effect.blendMode !== "NORMAL" && effect.blendMode !== "PASS_THROUGH" && blendModeToCSS(effect.blendMode) != null
+}
+
+function blendedShadowLayers(node: BaseNode & BlendMixin): string {
+  if (node.type === "TEXT") return ""
+
+  const shadowsByBlendMode: { [blendMode: string]: string[] } = {}
+  for (const effect of node.effects) {
+    if (!isBlendedShadow(effect)) continue
+    const blendMode = blendModeToCSS(effect.blendMode)!
+    shadowsByBlendMode[blendMode] = shadowsByBlendMode[blendMode] || []
+    shadowsByBlendMode[blendMode].push(shadowToCSS(effect))
+  }
+
+  return Object.keys(shadowsByBlendMode).map(blendMode => {
+    const style: CSS = {
+      position: "absolute",
+      top: 0,
+      left: 0,
+      width: "100%",
+      height: "100%",
+      "border-radius": "inherit",
+      "pointer-events": "none",
+      "box-shadow": shadowsByBlendMode[blendMode].join(", "),
+      "mix-blend-mode": blendMode,
+    }
+    return `<div ${classAttribute(classForStyle(style))}></div>`
+  }).join("")
+}
+
+// The content of layers drawn as an image has transparent areas, and their drop shadows follow
+// its outline rather than the layer's box
+function getEffectsStyle(node: BaseNode & BlendMixin, drawnAsImage: boolean = false): CSS {
   const style: CSS = {}
+  const isText = node.type === "TEXT"
+  const hasBlendedShadows = !isText && node.effects.some(isBlendedShadow)
+
+  const shadows: string[] = []
+  const filters: string[] = []
+  let blur: number | null = null
 
   for (const effect of node.effects) {
     if (!effect.visible) continue
-    if (effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW") {
-      style[`${node.type === "TEXT" ? "text" : "box"}-shadow`] = `${effect.type === "INNER_SHADOW" ? "inset " : ""}${effect.offset.x}px ${effect.offset.y}px ${effect.radius}px ${colorToCSS(effect.color, effect.color.a)}`
-    } else if (effect.type === "BACKGROUND_BLUR") {
-      style["backdrop-filter"] = `blur(${effect.radius}px)`
+
+    switch (effect.type) {
+      case "DROP_SHADOW":
+      case "INNER_SHADOW": {
+        warnAboutBlendMode(node, effect.blendMode, "shadow")
+        if (isBlendedShadow(effect)) {
+          if (!isText) break
+          warn(node, "Text shadows can't be blended, so they are drawn normally")
+        }
+        if (effect.type === "INNER_SHADOW" && isText) {
+          warn(node, "Inner shadows on text aren't supported")
+        } else if (effect.type === "DROP_SHADOW" && drawnAsImage) {
+          filters.push(dropShadowToCSS(effect))
+        } else {
+          // text-shadow has no spread
+          shadows.push(shadowToCSS(effect, !isText))
+        }
+        break
+      }
+
+      case "BACKGROUND_BLUR":
+        style["backdrop-filter"] = `blur(${effect.radius}px)`
+        break
+
+      case "LAYER_BLUR":
+        blur = effect.radius
+        break
     }
   }
 
+  if (shadows.length > 0) {
+    // text-shadow doesn't accept the inset shadows an effect style may contain, and a shared style
+    // only matches when none of its shadows had to become filters or layers
+    const sharedShadow = !isText && filters.length === 0 && !hasBlendedShadows ? effectStyleVariable(node.effectStyleId) : null
+    style[`${isText ? "text" : "box"}-shadow`] = sharedShadow || shadows.join(", ")
+  }
+
+  // Blurring last blurs the shadows along with the layer, as Figma does. CSS blurs take a standard
+  // deviation, which is about half of Figma's blur radius.
+  if (blur != null) filters.push(`blur(${blur / 2}px)`)
+  if (filters.length > 0) style["filter"] = filters.join(" ")
+
   return style
 }
 
@@ -754,113 +2223,323 @@ function paintToLinearGradient(paint: GradientPaint) {
     rotation = Math.PI - (d > 0 ? Math.acos(-c / s) : -Math.acos(c / s));
   }
 
-  const stops = paint.gradientStops.map((stop) => {
-    return `${colorToCSS(stop.color, stop.color.a)} ${Math.round(stop.position * 100)}%`
+  return `linear-gradient(${rotation}rad, ${gradientStops(paint)})`
+}
+
+function gradientStops(paint: GradientPaint, scale: number = 100): string {
+  const opacity = paint.opacity != null ? paint.opacity : 1
+  return paint.gradientStops.map((stop) => {
+    return `${colorToCSS(stop.color, stop.color.a * opacity)} ${Math.round(stop.position * scale * 100) / 100}%`
   }).join(', ')
-  return `linear-gradient(${rotation}rad, ${stops})`
 }
 
+function percent(value: number): string {
+  return `${Math.round(value * 10000) / 100}%`
+}
+
+interface GradientHandles {
+  center: Vector
+  // Ends of the gradient's two axes, as dragged out in the editor
+  xHandle: Vector
+  yHandle: Vector
+}
+
+// gradientTransform maps the layer, scaled to a unit square, into gradient space, where radial,
+// angular and diamond gradients are centered on (0.5, 0.5) with a radius of 0.5. Inverting it
+// gives back the handles in layer space.
+function gradientHandles(paint: GradientPaint): GradientHandles {
+  const [[a, b, c], [d, e, f]] = paint.gradientTransform
+  const det = a * e - b * d
+  const toLayer = (x: number, y: number): Vector => {
+    const dx = x - c
+    const dy = y - f
+    return { x: (e * dx - b * dy) / det, y: (a * dy - d * dx) / det }
+  }
+
+  return {
+    center: toLayer(0.5, 0.5),
+    xHandle: toLayer(1, 0.5),
+    yHandle: toLayer(0.5, 1),
+  }
+}
+
+function distance(from: Vector, to: Vector, width: number = 1, height: number = 1): number {
+  return Math.sqrt(Math.pow((to.x - from.x) * width, 2) + Math.pow((to.y - from.y) * height, 2))
+}
+
+// CSS can't rotate the ellipse of a radial gradient, so a rotated one keeps its radii but is drawn
+// upright
 function paintToRadialGradient(paint: GradientPaint) {
-  const stops = paint.gradientStops.map((stop) => {
-    return `${colorToCSS(stop.color, stop.color.a)} ${Math.round(stop.position * 60)}%`
-  }).join(', ');
+  const { center, xHandle, yHandle } = gradientHandles(paint)
+  const size = `${percent(distance(center, xHandle))} ${percent(distance(center, yHandle))}`
+  return `radial-gradient(ellipse ${size} at ${percent(center.x)} ${percent(center.y)}, ${gradientStops(paint)})`
+}
+
+function paintToAngularGradient(paint: GradientPaint, width: number = 1, height: number = 1) {
+  const { center, xHandle } = gradientHandles(paint)
 
-  return `radial-gradient(${stops})`
+  // Conic gradients start at the top and go clockwise. Angular gradients start at their handle.
+  const angle = Math.atan2((xHandle.x - center.x) * width, -(xHandle.y - center.y) * height) * 180 / Math.PI
+  return `conic-gradient(from ${Math.round(angle * 100) / 100}deg at ${percent(center.x)} ${percent(center.y)}, ${gradientStops(paint)})`
 }
 
+// A diamond is four linear gradients, one per quadrant, each running from the center out to the
+// corner of a box the size of the diamond's half-axes. Their isolines are exactly the diamond's
+// edges, which reach the middle of each box, and past that the last stop fills the rest. Like
+// radial gradients, a rotated diamond is drawn upright.
+function paintToDiamondGradient(paint: GradientPaint, width: number, height: number): string[] {
+  const { center, xHandle, yHandle } = gradientHandles(paint)
+  const cx = center.x * width
+  const cy = center.y * height
+  const rx = distance(center, xHandle, width, height)
+  const ry = distance(center, yHandle, width, height)
+  const stops = gradientStops(paint, 50)
+
+  const round = (value: number) => `${Math.round(value * 100) / 100}px`
+  const quadrants: [string, number, number][] = [
+    ["bottom right", cx, cy],
+    ["bottom left", cx - rx, cy],
+    ["top right", cx, cy - ry],
+    ["top left", cx - rx, cy - ry],
+  ]
+  const layers = quadrants.map(([direction, x, y]) => {
+    return `linear-gradient(to ${direction}, ${stops}) ${round(x)} ${round(y)}/${round(rx)} ${round(ry)} no-repeat`
+  })
+
+  const last = paint.gradientStops[paint.gradientStops.length - 1]
+  const lastColor = colorToCSS(last.color, last.color.a * (paint.opacity != null ? paint.opacity : 1))
+  return [...layers, `linear-gradient(${lastColor}, ${lastColor})`]
+}
 
-async function getStrokeStyleForPaints(width: number, paints: ReadonlyArray<Paint>): Promise<CSS> {
-  for (let paint of paints) {
-    if (!paint.visible) continue
 
-    switch (paint.type) {
-      case "SOLID": {
-        return { border: `${width}px solid ${colorToCSS(paint.color, paint.opacity || 1.0)}` }
-      }
+async function addImage(hash: string): Promise<ImageToUpload> {
+  if (images[hash]) return images[hash]
 
-      case "IMAGE": {
-        const hash = paint.imageHash
-        if (hash != null) {
-          const img = figma.getImageByHash(hash)
-          const bytes = await img.getBytesAsync()
+  const img = figma.getImageByHash(hash)
+  const bytes = await img.getBytesAsync()
+  const format = sniffImageFormat(bytes) || "png"
+  images[hash] = { bytes, path: `/images/${hash}.${format}`, url: `images/${hash}.${format}`, format, size: imageSize(bytes, format) }
+  return images[hash]
+}
 
-          // TODO(jlfwong): Support images other than .pngs
-          const path = `/images/${hash}.png`
-          images[hash] = { bytes, path }
-          return { "border-width": `${width}px`, "border-style": "solid", "border-image": `url(${path}) 30%`}
-        }
-      }
+// Width in CSS pixels that an image paint ends up drawn at inside a width x height box
+function paintDisplayWidth(paint: ImagePaint, size: ImageSize, width: number, height: number): number {
+  switch (paint.scaleMode) {
+    case "FILL": return size.width * Math.max(width / size.width, height / size.height)
+    case "FIT": return size.width * Math.min(width / size.width, height / size.height)
+    case "TILE": return size.width * (paint.scalingFactor || 1)
+    case "CROP": return width / paint.imageTransform![0][0]
+  }
+  return size.width
+}
+
+// Like addImage, but ships a downscaled copy when the original has far more pixels than the
+// paint will ever show. Background layers can't be made transparent one by one, so for those the
+// paint's opacity is baked into the copy.
+async function addImageForPaint(node: SceneNode, paint: ImagePaint, bakeOpacity: boolean): Promise<ImageToUpload> {
+  const original = await addImage(paint.imageHash!)
+  const { size, format } = original
+  const opacity = bakeOpacity && paint.opacity != null ? paint.opacity : 1
+
+  // GIFs may be animated, and exporting would keep only the first frame
+  if (size == null || (format !== "png" && format !== "jpg")) {
+    if (opacity < 1) warn(node, "The opacity of this image fill is ignored")
+    return original
+  }
+
+  let width = size.width
+  if (options.maxImageDensity > 0) {
+    const maxWidth = Math.ceil(paintDisplayWidth(paint, size, node.width, node.height) * options.maxImageDensity)
+    if (maxWidth > 0) width = Math.min(width, maxWidth)
+  }
+  if (width === size.width && opacity === 1) return original
+
+  const key = `${paint.imageHash}-${width}w-${opacity}`
+  if (downscaledImages[key]) return downscaledImages[key]
+
+  // Only PNGs can carry the transparency
+  const exportFormat = opacity < 1 ? "png" : format
+  const bytes = await resizeImage(paint.imageHash!, size, width, exportFormat, opacity)
+  if (bytes == null) {
+    if (opacity < 1) warn(node, "The opacity of this image fill couldn't be applied")
+    downscaledImages[key] = original
+  } else if (opacity === 1 && bytes.length >= original.bytes.length) {
+    downscaledImages[key] = original
+  } else {
+    downscaledImages[key] = addImageBytes(bytes, exportFormat)
+  }
+  return downscaledImages[key]
+}
+
+// Images we produce ourselves are named after their contents, like the ones Figma stores, so
+// the same document always converts to the same paths.
+function addImageBytes(bytes: Uint8Array, format: ImageFormat): ImageToUpload {
+  const hash = hashBytes(bytes)
+  images[hash] = { bytes, path: `/images/${hash}.${format}`, url: `images/${hash}.${format}`, format, size: imageSize(bytes, format) }
+  return images[hash]
+}
+
+// There's no canvas on the main thread, so let Figma do the resampling by exporting a
+// throwaway rectangle filled with the image. Creating it is an edit to the document: it shows up
+// in the undo history, and fails in files the user can't edit, where images ship as they are.
+async function resizeImage(hash: string, size: ImageSize, width: number, format: "png" | "jpg", opacity: number): Promise<Uint8Array | null> {
+  let rect: RectangleNode | null = null
+  try {
+    rect = figma.createRectangle()
+    rect.resize(size.width, size.height)
+    rect.fills = [{ type: "IMAGE", imageHash: hash, scaleMode: "FILL", opacity }]
+    return await rect.exportAsync({ format: format === "jpg" ? "JPG" : "PNG", constraint: { type: "WIDTH", value: width } })
+  } catch (e) {
+    console.error("Failed to downscale image", hash, e)
+    return null
+  } finally {
+    if (rect) rect.remove()
+  }
+}
+
+function paintToBorderImage(node: BaseNode, paint: Paint, url: string | null): string | null {
+  switch (paint.type) {
+    case "IMAGE":
+      return url != null ? `url(${url})` : null
+    case "GRADIENT_LINEAR":
+      return paintToLinearGradient(paint)
+    case "GRADIENT_RADIAL":
+      return paintToRadialGradient(paint)
+    case "GRADIENT_ANGULAR":
+      return paintToAngularGradient(paint)
+    case "GRADIENT_DIAMOND":
+      // border-image takes a single image, which can't hold the four quadrants of a diamond
+      warn(node, "Diamond gradient strokes are drawn as radial gradients")
+      return paintToRadialGradient(paint)
+  }
+  return null
+}
 
-      case "GRADIENT_LINEAR":
-        return { "border-width": `${width}px`, "border-style": "solid", "border-image": `${paintToLinearGradient(paint as GradientPaint)} 30%` }
-      case "GRADIENT_RADIAL":
-        return { "border-width": `${width}px`, "border-style": "solid", "border-image": `${paintToRadialGradient(paint)} 30%` }
-      case "GRADIENT_DIAMOND":
-      case "GRADIENT_ANGULAR": {
-        // TODO(jlfwong): Handle gradients
-        return {}
+function strokeDashStyle(node: GeometryMixin, width: number): string {
+  if (node.dashPattern.length === 0) return "solid"
+  return node.dashPattern[0] <= width ? "dotted" : "dashed"
+}
+
+async function getStrokeStyleForPaints(node: BaseNode & GeometryMixin, width: number, paints: ReadonlyArray<Paint>, styleId: string = ""): Promise<CSS> {
+  const visible = paints.filter(paint => paint.visible !== false)
+  if (visible.length === 0 || width === 0) return {}
+  if (visible.length > 1) {
+    warn(node, `Only the top one of the ${visible.length} strokes is shown`)
+  }
+
+  // Strokes are listed bottom to top, like fills
+  const paint = visible[visible.length - 1]
+  const shared = paintStyleVariable(styleId)
+  const sharedPaint = shared != null ? shared.paint : paint
+  warnAboutBlendMode(node, sharedPaint.blendMode, "stroke")
+
+  if (sharedPaint.type === "SOLID") {
+    // Outlines take no space and don't push the children around the way borders do, and they can be
+    // pulled inwards to match the stroke's alignment
+    const color = shared != null ? shared.value : colorToCSS(sharedPaint.color, sharedPaint.opacity != null ? sharedPaint.opacity : 1)
+    const offset = node.strokeAlign === "INSIDE" ? -width : node.strokeAlign === "CENTER" ? -width / 2 : 0
+    return { outline: `${width}px ${strokeDashStyle(node, width)} ${color}`, "outline-offset": `${offset}px` }
+  }
+
+  const url = paint.type === "IMAGE" && paint.imageHash != null ? (await addImage(paint.imageHash)).url : null
+  const image = shared != null ? shared.value : paintToBorderImage(node, paint, url)
+  if (image == null) return {}
+
+  if (node.strokeAlign !== "INSIDE") {
+    warn(node, "Gradient and image strokes are always drawn inside the layer")
+  }
+  if (node.dashPattern.length > 0) {
+    warn(node, "Gradient and image strokes can't be dashed")
+  }
+  return { "border-width": `${width}px`, "border-style": "solid", "border-image": `${image} 30%` }
+}
+
+// Each paint becomes one or more comma-separated layers of the background shorthand
+async function paintToBackgroundLayers(node: SceneNode, paint: Paint): Promise<string[]> {
+  switch (paint.type) {
+    case "SOLID": {
+      const color = colorToCSS(paint.color, paint.opacity != null ? paint.opacity : 1)
+      return [`linear-gradient(${color}, ${color})`]
+    }
+
+    case "IMAGE": {
+      const hash = paint.imageHash
+      if (hash == null) return []
+      const { url } = await addImageForPaint(node, paint, true)
+      if (paint.scaleMode === "FIT") {
+        return [`url(${url}) no-repeat center center/contain`]
+      } else if (paint.scaleMode === "FILL") {
+        return [`url(${url}) no-repeat center center/cover`]
+      } else if (paint.scaleMode === "TILE") {
+        // Tiles are sized from the original, even when a downscaled copy is what ships
+        const { size } = await addImage(hash)
+        if (size == null) return [`url(${url}) repeat`]
+        const width = size.width * paint.scalingFactor!
+        const height = size.height * paint.scalingFactor!
+        return [`url(${url}) repeat 0 0/${width}px ${height}px`]
+      } else if (paint.scaleMode === "CROP") {
+        const transform = paint.imageTransform!
+        const fullWidth = node.width / transform[0][0]
+        const fullHeight = node.height / transform[1][1]
+        const xOff = fullWidth * transform[0][2]
+        const yOff = fullHeight * transform[1][2]
+        return [`url(${url}) no-repeat ${-xOff}px ${-yOff}px/${fullWidth}px ${fullHeight}px`]
       }
+      return []
     }
-  }
 
-  return {}
+    case "GRADIENT_LINEAR":
+      return [paintToLinearGradient(paint)]
+    case "GRADIENT_RADIAL":
+      return [paintToRadialGradient(paint)]
+    case "GRADIENT_ANGULAR":
+      return [paintToAngularGradient(paint, node.width, node.height)]
+    case "GRADIENT_DIAMOND":
+      return paintToDiamondGradient(paint, node.width, node.height)
+  }
+  return []
 }
 
 async function getBackgroundStyleForPaints(node: SceneNode, paints: ReadonlyArray<Paint>): Promise<CSS> {
-  for (let paint of paints) {
-    if (!paint.visible) continue
+  const shared = 'fillStyleId' in node ? paintStyleVariable(node.fillStyleId) : null
+  if (shared != null) {
+    return shared.paint.type === "SOLID" ? { "background-color": shared.value } : { "background": shared.value }
+  }
 
-    switch (paint.type) {
-      case "SOLID": {
-        return { "background-color": colorToCSS(paint.color, paint.opacity || 1.0) }
-      }
+  const visible = paints.filter(paint => paint.visible !== false)
+  if (visible.length === 0) return {}
 
-      case "IMAGE": {
-        const hash = paint.imageHash
-        if (hash != null) {
-          const img = figma.getImageByHash(hash)
-          const bytes = await img.getBytesAsync()
-          const dv = new DataView(bytes.buffer, 0, 28)
-
-          // TODO(jlfwong): Support images other than .pngs
-          const path = `/images/${hash}.png`
-          images[hash] = { bytes, path }
-          if (paint.scaleMode === "FIT") {
-            return { "background": `url(${path}) no-repeat center center/contain` }
-          } else if (paint.scaleMode === "FILL") {
-            return { "background": `url(${path}) no-repeat center center/cover` }
-          } else if (paint.scaleMode === "TILE") {
-            const width = dv.getInt32(16) * paint.scalingFactor!
-            const height = dv.getInt32(20) * paint.scalingFactor!
-            return {
-              "background-image": `url(${path})`,
-              "background-repeat": 'repeat',
-              "background-size": `${width}px ${height}px`,
-            }
-          } else if (paint.scaleMode === "CROP") {
-            const transform = paint.imageTransform!
-            const fullWidth = node.width / transform[0][0]
-            const fullHeight = node.height / transform[1][1]
-            const xOff = fullWidth * transform[0][2]
-            const yOff = fullHeight * transform[1][2]
-
-            return {
-              "background": `url(${path}) no-repeat ${-xOff}px ${-yOff}px/${fullWidth}px ${fullHeight}px`,
-            }
-          }
-        }
-      }
+  // A solid paint at the bottom of the stack can be the background color, which CSS draws
+  // beneath every other layer. Its blend mode would blend with whatever is behind the node, which
+  // backgrounds can't do.
+  const bottom = visible[0]
+  const style: CSS = {}
+  let color: string | null = null
+  if (bottom.type === "SOLID") {
+    color = colorToCSS(bottom.color, bottom.opacity != null ? bottom.opacity : 1)
+    visible.shift()
+  }
 
-      case "GRADIENT_LINEAR":
-        return { "background": paintToLinearGradient(paint as GradientPaint) }
-      case "GRADIENT_RADIAL":
-        return { "background": paintToRadialGradient(paint) }
-      case "GRADIENT_DIAMOND":
-      case "GRADIENT_ANGULAR": {
-        // TODO(jlfwong): Handle gradients
-      }
+  // Figma lists fills bottom to top, but CSS lists backgrounds top to bottom
+  const layers: string[] = []
+  const layerBlendModes: string[] = []
+  for (const paint of visible.reverse()) {
+    warnAboutBlendMode(node, paint.blendMode, "fill")
+    const blendMode = (paint.blendMode && blendModeToCSS(paint.blendMode)) || "normal"
+    for (const layer of await paintToBackgroundLayers(node, paint)) {
+      layers.push(layer)
+      layerBlendModes.push(blendMode)
     }
   }
 
-  return {}
+  if (layers.length > 0) {
+    style["background"] = layers.join(", ")
+    if (layerBlendModes.some(blendMode => blendMode !== "normal")) {
+      style["background-blend-mode"] = layerBlendModes.join(", ")
+    }
+  }
+  // After the shorthand, which would otherwise reset it
+  if (color != null) style["background-color"] = color
+
+  return style
 }
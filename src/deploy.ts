@@ -0,0 +1,172 @@
+import { ConversionResult } from "./convert"
+
+export interface PackagedWebsite {
+  name: string
+
+  // Map from path to hash
+  files: {[path: string]: string}
+
+  // Map from hash to content
+  blobs: {[hash: string]: string | Uint8Array}
+}
+
+export interface DeployProgress {
+  message: string
+
+  // Number of files handled so far and the total, when the target knows them
+  done?: number
+  total?: number
+}
+
+export type ProgressCallback = (progress: DeployProgress) => void
+
+export interface DeployResult {
+  // Where the published site can be visited, if the target hosts it
+  url: string | null
+
+  // Settings the target picked while deploying, e.g. a site it had to create, to use next time
+  config?: TargetConfig
+}
+
+// Settings the user has to fill in before deploying to a target, e.g. a bucket name
+export interface TargetField {
+  key: string
+  label: string
+  placeholder?: string
+  secret?: boolean
+  optional?: boolean
+  // Has to be an http(s) URL
+  url?: boolean
+}
+
+export type TargetConfig = {[key: string]: string}
+
+export interface DeployTarget {
+  id: string
+  name: string
+  fields: TargetField[]
+
+  // Packages the conversion for targets that don't take the site itself
+  compile?: (result: ConversionResult) => PackagedWebsite
+
+  deploy(site: PackagedWebsite, config: TargetConfig, onProgress: ProgressCallback): Promise<DeployResult>
+}
+
+export class DeployError extends Error {
+  // HTTP status of the failing request, if the failure came from one
+  status: number | null
+
+  constructor(message: string, status: number | null = null) {
+    super(message)
+    this.name = "DeployError"
+    this.status = status
+  }
+}
+
+export function requireFields(target: DeployTarget, config: TargetConfig) {
+  for (const field of target.fields) {
+    if (!field.optional && !config[field.key]) {
+      throw new DeployError(`${target.name}: ${field.label} is required`)
+    }
+    if (field.url && config[field.key] && !isHttpUrl(config[field.key])) {
+      throw new DeployError(`${target.name}: ${field.label} must be a URL starting with https://`)
+    }
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === "https:" || url.protocol === "http:"
+  } catch (e) {
+    return false
+  }
+}
+
+export function toBytes(blob: string | Uint8Array): Uint8Array {
+  return typeof blob === "string" ? new TextEncoder().encode(blob) : blob
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000) as any as number[])
+  }
+  return btoa(binary)
+}
+
+// Site paths are absolute ("/about/index.html"), but most storage APIs want keys
+export function pathToKey(path: string): string {
+  return path.replace(/^\/+/, "")
+}
+
+const contentTypes: {[ext: string]: string} = {
+  html: "text/html; charset=utf-8",
+  css: "text/css; charset=utf-8",
+  js: "application/javascript; charset=utf-8",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  ico: "image/x-icon",
+}
+
+export function contentTypeForPath(path: string): string {
+  const ext = path.slice(path.lastIndexOf(".") + 1).toLowerCase()
+  return contentTypes[ext] || "application/octet-stream"
+}
+
+// Runs `task` over every item with at most `limit` of them in flight at once. Rejects with the
+// first failure, after which no new tasks are started.
+export function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let next = 0
+    let running = 0
+    let failed = false
+
+    const startMore = () => {
+      if (failed) return
+      if (next >= items.length && running === 0) {
+        resolve()
+        return
+      }
+      while (running < limit && next < items.length) {
+        const item = items[next++]
+        running++
+        task(item).then(() => {
+          running--
+          startMore()
+        }, (e) => {
+          failed = true
+          reject(e)
+        })
+      }
+    }
+
+    startMore()
+  })
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Network failures, rate limiting and server errors are usually worth another try. Anything
+// else, like a bad token, will fail the same way again.
+function isRetryable(e: any): boolean {
+  if (!(e instanceof DeployError)) return true
+  return e.status === null || e.status === 429 || e.status >= 500
+}
+
+export async function withRetries<T>(attempt: () => Promise<T>, attempts: number = 3): Promise<T> {
+  for (let i = 1; ; i++) {
+    try {
+      return await attempt()
+    } catch (e) {
+      if (i >= attempts || !isRetryable(e)) throw e
+      await sleep(1000 * Math.pow(2, i - 1))
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import sha1 from 'sha1'
+
+export type ImageFormat = "png" | "jpg" | "gif" | "webp" | "svg"
+
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+// sha1 stringifies anything that isn't a string, Buffer or array. The Buffer shares the bytes
+// rather than copying them.
+export function hashBytes(bytes: Uint8Array): string {
+  return sha1(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength))
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset: number = 0): boolean {
+  if (bytes.length < offset + signature.length) return false
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[offset + i] !== signature[i]) return false
+  }
+  return true
+}
+
+function ascii(text: string): number[] {
+  return text.split("").map(c => c.charCodeAt(0))
+}
+
+// The plugin sandbox has no TextDecoder, but the headers we care about are plain ASCII
+function headerText(bytes: Uint8Array, length: number): string {
+  return String.fromCharCode.apply(null, bytes.subarray(0, length) as any as number[])
+}
+
+// Figma hands us image bytes without telling us what they are, so look at the magic numbers
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png"
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpg"
+  if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) return "gif"
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return "webp"
+
+  const head = headerText(bytes, 256).trim()
+  if (head.startsWith("<svg") || (head.startsWith("<?xml") && head.indexOf("<svg") !== -1)) return "svg"
+
+  return null
+}
+
+function pngSize(view: DataView): ImageSize | null {
+  // The IHDR chunk always comes first
+  if (view.byteLength < 24) return null
+  return { width: view.getUint32(16), height: view.getUint32(20) }
+}
+
+function jpgSize(view: DataView): ImageSize | null {
+  let offset = 2
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null
+    const marker = view.getUint8(offset + 1)
+
+    // Padding, and markers that stand alone without a length
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2
+      continue
+    }
+
+    // Start-of-frame markers carry the dimensions. C4, C8 and CC share the range but aren't frames.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+    }
+
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return null
+}
+
+function gifSize(view: DataView): ImageSize | null {
+  if (view.byteLength < 10) return null
+  return { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+}
+
+function webpSize(view: DataView, bytes: Uint8Array): ImageSize | null {
+  if (view.byteLength < 30) return null
+
+  if (startsWith(bytes, ascii("VP8 "), 12)) {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+  }
+  if (startsWith(bytes, ascii("VP8L"), 12)) {
+    const bits = view.getUint32(21, true)
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+  }
+  if (startsWith(bytes, ascii("VP8X"), 12)) {
+    const width = view.getUint8(24) | (view.getUint8(25) << 8) | (view.getUint8(26) << 16)
+    const height = view.getUint8(27) | (view.getUint8(28) << 8) | (view.getUint8(29) << 16)
+    return { width: width + 1, height: height + 1 }
+  }
+  return null
+}
+
+function svgSize(bytes: Uint8Array): ImageSize | null {
+  const tag = headerText(bytes, 4096).match(/<svg[^>]*>/)
+  if (tag == null) return null
+
+  const attribute = (name: string) => {
+    const match = tag[0].match(new RegExp(`\\s${name}=["']([\\d.]+)(px)?["']`))
+    return match ? parseFloat(match[1]) : null
+  }
+  const width = attribute("width")
+  const height = attribute("height")
+  if (width != null && height != null) return { width, height }
+
+  const viewBox = tag[0].match(/viewBox=["'][\d.-]+[\s,]+[\d.-]+[\s,]+([\d.]+)[\s,]+([\d.]+)["']/)
+  if (viewBox != null) return { width: parseFloat(viewBox[1]), height: parseFloat(viewBox[2]) }
+
+  return null
+}
+
+export function imageSize(bytes: Uint8Array, format: ImageFormat | null = sniffImageFormat(bytes)): ImageSize | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  switch (format) {
+    case "png": return pngSize(view)
+    case "jpg": return jpgSize(view)
+    case "gif": return gifSize(view)
+    case "webp": return webpSize(view, bytes)
+    case "svg": return svgSize(bytes)
+  }
+  return null
+}
@@ -0,0 +1,457 @@
+import sha1 from 'sha1'
+import { ComponentOverride, ConversionResult, uniqueName } from './convert'
+import { PackagedWebsite } from './deploy'
+import { hashBytes } from './images'
+import { runtimeModule } from './runtime'
+import { baseStyles, breakpointStyles, fontLinks } from './site'
+
+// Exports the converted page as the source of a React app, for carrying on in code. Pages and
+// components are written out as JSX from the same markup the site is built from, and the site's
+// runtime handles their interactions, drawing pages through the app instead of fetching them.
+
+// The props a component takes in place of the layers its instances override
+interface PartProps {
+  content?: string
+  className?: string
+  show?: string
+}
+
+interface JsxContext {
+  componentNames: { [tagName: string]: string }
+  componentProps: { [tagName: string]: { [key: string]: PartProps } }
+
+  // Props of the component being written, by layer
+  props: { [key: string]: PartProps }
+
+  // Components the file being written uses
+  used: { [name: string]: boolean }
+}
+
+const svgNamespace = "http://www.w3.org/2000/svg"
+
+const eventNames: { [attr: string]: string } = {
+  onclick: "onClick",
+  onpointerdown: "onPointerDown",
+  onpointerup: "onPointerUp",
+  onmouseenter: "onMouseEnter",
+  onmouseleave: "onMouseLeave",
+}
+
+const attributeNames: { [attr: string]: string } = {
+  class: "className",
+  for: "htmlFor",
+  tabindex: "tabIndex",
+  srcset: "srcSet",
+}
+
+// Props can't be named like these, and mustn't hide the globals the generated handlers use
+const reservedNames = ("await break case catch class const continue debugger default delete do else enum export " +
+  "extends false finally for function if implements import in instanceof interface let new null package private " +
+  "protected public return static super switch this throw true try typeof var void while with yield event window").split(" ")
+
+function words(name: string): string[] {
+  return name.split(/[^A-Za-z0-9]+/).filter(word => word !== "")
+}
+
+function pascalCase(name: string): string {
+  const joined = words(name).map(word => word[0].toUpperCase() + word.slice(1)).join("")
+  return /^[0-9]/.test(joined) ? `Layer${joined}` : joined
+}
+
+function camelCase(name: string): string {
+  const pascal = pascalCase(name)
+  return pascal.slice(0, 1).toLowerCase() + pascal.slice(1)
+}
+
+function parseHtml(html: string): Node[] {
+  const body = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html").body
+  return Array.prototype.slice.call(body.childNodes)
+}
+
+// The changes an instance's attributes make to the layers of its component
+function overridesOf(el: Element): { [key: string]: ComponentOverride } {
+  const overrides: { [key: string]: ComponentOverride } = {}
+  for (const attr of Array.prototype.slice.call(el.attributes) as Attr[]) {
+    const match = /^(.+)-(hidden|class|content)$/.exec(attr.name)
+    if (match == null) continue
+    const override = overrides[match[1]] = overrides[match[1]] || {}
+    if (match[2] === "hidden") override.hidden = true
+    if (match[2] === "class") override.class = attr.value
+    if (match[2] === "content") override.content = attr.value
+  }
+  return overrides
+}
+
+function findPart(nodes: Node[], key: string): Element | null {
+  const selector = `[data-part="${key}"]`
+  for (const node of nodes) {
+    if (node.nodeType !== Node.ELEMENT_NODE) continue
+    const el = node as Element
+    const part = el.matches(selector) ? el : el.querySelector(selector)
+    if (part) return part
+  }
+  return null
+}
+
+function jsxAttributeName(name: string): string {
+  if (attributeNames[name]) return attributeNames[name]
+  if (name.startsWith("data-") || name.startsWith("aria-")) return name
+  return name.replace(/[-:]([a-z])/g, (_, letter) => letter.toUpperCase())
+}
+
+function jsxValue(value: string): string {
+  return /^[^"&{}<>\\\n]*$/.test(value) ? `"${value}"` : `{${JSON.stringify(value)}}`
+}
+
+function jsxStyle(style: string): string {
+  const entries = style.split(";").filter(declaration => declaration.indexOf(":") !== -1).map(declaration => {
+    const colon = declaration.indexOf(":")
+    // Vendor prefixes keep their capital, like WebkitMask
+    const property = declaration.slice(0, colon).trim()
+      .replace(/^-([a-z])/, (_, letter) => letter.toUpperCase())
+      .replace(/-([a-z])/g, (_, letter) => letter.toUpperCase())
+    return `${property}: ${JSON.stringify(declaration.slice(colon + 1).trim())}`
+  })
+  return `{{ ${entries.join(", ")} }}`
+}
+
+// Inline handlers call the runtime through globals, with `this` being the element
+function jsxHandler(code: string, preventDefault: boolean): string {
+  const body = code.replace(/\bthis\b/g, "event.currentTarget").replace(/\bmagic_/g, "window.magic_")
+  return `{(event) => { ${preventDefault ? "event.preventDefault(); " : ""}${body} }}`
+}
+
+function jsxText(text: string, indent: string): string[] {
+  if (text.trim() === "") {
+    // Whitespace between elements, unless it's inside a line of text
+    return text.indexOf("\n") === -1 ? [`${indent}{" "}`] : []
+  }
+  if (/^[^{}<>&\n]*$/.test(text) && text.trim() === text) return [`${indent}${text}`]
+  return [`${indent}{${JSON.stringify(text)}}`]
+}
+
+function jsxNodes(nodes: Node[], ctx: JsxContext, indent: string): string[] {
+  const lines: string[] = []
+  for (const node of nodes) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      lines.push(...jsxText(node.textContent || "", indent))
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      lines.push(...jsxElement(node as Element, ctx, indent))
+    }
+  }
+  return lines
+}
+
+function jsxInstance(el: Element, name: string, ctx: JsxContext, indent: string): string[] {
+  const props = ctx.componentProps[el.tagName.toLowerCase()]
+  const overrides = overridesOf(el)
+  const lines: string[] = []
+  for (const key of Object.keys(overrides)) {
+    const override = overrides[key]
+    const prop = props[key]
+    if (override.hidden) lines.push(`${indent}  ${prop.show}={false}`)
+    if (override.class !== undefined) lines.push(`${indent}  ${prop.className}=${jsxValue(override.class)}`)
+    if (override.content !== undefined) {
+      lines.push(`${indent}  ${prop.content}={<>`, ...jsxNodes(parseHtml(override.content), ctx, `${indent}    `), `${indent}  </>}`)
+    }
+  }
+
+  ctx.used[name] = true
+  if (lines.length === 0) return [`${indent}<${name} />`]
+  return [`${indent}<${name}`, ...lines, `${indent}/>`]
+}
+
+function jsxElement(el: Element, ctx: JsxContext, indent: string): string[] {
+  const tagName = el.namespaceURI === svgNamespace ? el.tagName : el.tagName.toLowerCase()
+  const componentName = ctx.componentNames[tagName]
+  if (componentName) return jsxInstance(el, componentName, ctx, indent)
+
+  // A layer instances can hide is drawn depending on a prop, together with the element that
+  // positions it
+  const firstChild = el.firstElementChild
+  const hiddenPart = firstChild && ctx.props[firstChild.getAttribute("data-part") || ""]
+  if (hiddenPart && hiddenPart.show) {
+    return [`${indent}{${hiddenPart.show} && (`, ...jsxElement(el, { ...ctx, props: { ...ctx.props, [firstChild!.getAttribute("data-part")!]: { ...hiddenPart, show: undefined } } }, `${indent}  `), `${indent})}`]
+  }
+
+  const part = ctx.props[el.getAttribute("data-part") || ""] || {}
+  const attributes: string[] = []
+  for (const attr of Array.prototype.slice.call(el.attributes) as Attr[]) {
+    if (attr.name === "data-part") continue
+    if (eventNames[attr.name]) {
+      attributes.push(`${eventNames[attr.name]}=${jsxHandler(attr.value, tagName === "a" && attr.name === "onclick")}`)
+    } else if (attr.name === "class" && part.className) {
+      attributes.push(`className={${part.className}}`)
+    } else if (attr.name === "style") {
+      attributes.push(`style=${jsxStyle(attr.value)}`)
+    } else if (attr.name === "hidden") {
+      attributes.push("hidden")
+    } else {
+      attributes.push(`${jsxAttributeName(attr.name)}=${jsxValue(attr.value)}`)
+    }
+  }
+
+  const open = `${indent}<${[tagName, ...attributes].join(" ")}`
+  const children = part.content ? [`${indent}  {${part.content}}`] : jsxNodes(Array.prototype.slice.call(el.childNodes), ctx, `${indent}  `)
+  if (children.length === 0) return [`${open} />`]
+  return [`${open}>`, ...children, `${indent}</${tagName}>`]
+}
+
+function importLines(ctx: JsxContext, from: string): string[] {
+  return Object.keys(ctx.used).sort().map(name => `import ${name} from "${from}/${name}"`)
+}
+
+// The layers each component's instances override, and the props that stand in for them
+function collectComponentProps(templates: { [tagName: string]: Node[] }, documents: Node[][]): JsxContext["componentProps"] {
+  const overridden: { [tagName: string]: { [key: string]: ComponentOverride } } = {}
+  const visit = (nodes: Node[]) => {
+    for (const node of nodes) {
+      if (node.nodeType !== Node.ELEMENT_NODE) continue
+      const el = node as Element
+      const tagName = el.tagName.toLowerCase()
+      if (templates[tagName]) {
+        const overrides = overridesOf(el)
+        const parts = overridden[tagName] = overridden[tagName] || {}
+        for (const key of Object.keys(overrides)) {
+          parts[key] = { ...parts[key], ...overrides[key] }
+          if (overrides[key].content !== undefined) visit(parseHtml(overrides[key].content!))
+        }
+      }
+      visit(Array.prototype.slice.call(el.childNodes))
+    }
+  }
+  documents.forEach(visit)
+
+  const componentProps: JsxContext["componentProps"] = {}
+  for (const tagName of Object.keys(templates).sort()) {
+    const parts = overridden[tagName] || {}
+    const taken: { [name: string]: boolean } = { key: true, ref: true, children: true }
+    const props: { [key: string]: PartProps } = {}
+
+    for (const key of Object.keys(parts).sort()) {
+      const part = findPart(templates[tagName], key)
+      let base = camelCase(part && part.getAttribute("name") || "") || "layer"
+      if (reservedNames.indexOf(base) !== -1) base += "Layer"
+      props[key] = {}
+      if (parts[key].content !== undefined) props[key].content = uniqueName(base, taken, "")
+      if (parts[key].class !== undefined) props[key].className = uniqueName(`${base}ClassName`, taken, "")
+      if (parts[key].hidden) props[key].show = uniqueName(`show${base[0].toUpperCase()}${base.slice(1)}`, taken, "")
+    }
+    componentProps[tagName] = props
+  }
+  return componentProps
+}
+
+function componentSource(name: string, template: Node[], ctx: JsxContext): string {
+  // Props default to the component's own layers
+  const defaults: string[] = []
+  for (const key of Object.keys(ctx.props)) {
+    const prop = ctx.props[key]
+    const part = findPart(template, key)
+    if (prop.content) {
+      const content = part ? jsxNodes(Array.prototype.slice.call(part.childNodes), { ...ctx, props: {} }, "    ") : []
+      defaults.push(`  ${prop.content} = <>`, ...content, `  </>,`)
+    }
+    if (prop.className) defaults.push(`  ${prop.className} = ${JSON.stringify(part ? part.getAttribute("class") || "" : "")},`)
+    if (prop.show) defaults.push(`  ${prop.show} = true,`)
+  }
+
+  const body = jsxNodes(template, ctx, "      ")
+  const signature = defaults.length > 0 ? `export default function ${name}({\n${defaults.join("\n")}\n}) {` : `export default function ${name}() {`
+  const imports = importLines(ctx, ".")
+  return `${imports.length > 0 ? imports.join("\n") + "\n\n" : ""}${signature}\n  return (\n    <>\n${body.join("\n")}\n    </>\n  )\n}\n`
+}
+
+function pageSource(name: string, page: Node[], styles: string, ctx: JsxContext): string {
+  const body = jsxNodes(page, ctx, "      ")
+  if (styles !== "") body.unshift(`      <style>{${JSON.stringify(styles)}}</style>`)
+  const imports = importLines(ctx, "../components")
+  return `${imports.length > 0 ? imports.join("\n") + "\n\n" : ""}export default function ${name}() {\n  return (\n    <>\n${body.join("\n")}\n    </>\n  )\n}\n`
+}
+
+// The path part of the URLs the runtime navigates to
+function pathToUrl(path: string): string {
+  return path.endsWith("index.html") ? path.slice(0, path.indexOf("index.html")) : path
+}
+
+function appSource(pageNames: { [path: string]: string }, startPath: string): string {
+  const paths = Object.keys(pageNames).sort()
+  return `import { useEffect, useState } from "react"
+import { startRuntime } from "./runtime"
+${paths.map(path => `import ${pageNames[path]} from "./pages/${pageNames[path]}"`).join("\n")}
+
+// Pages by URL, which is how the runtime navigates between them
+const pages = {
+${paths.map(path => `  ${JSON.stringify(pathToUrl(path))}: ${pageNames[path]},`).join("\n")}
+}
+const startUrl = ${JSON.stringify(pathToUrl(startPath))}
+
+let showLocation = null
+let pageRendered = null
+
+// Called by the runtime to navigate, resolving once the new page is drawn
+function renderPage(url, history) {
+  if (history === "push") window.history.pushState(null, "", url)
+  if (history === "replace") window.history.replaceState(null, "", url)
+  return new Promise(resolve => {
+    pageRendered = resolve
+    showLocation({ pathname: window.location.pathname })
+  })
+}
+
+function pageForPath(pathname) {
+  return pages[pathname] || pages[pathname + "/"] || pages[startUrl]
+}
+
+export default function App() {
+  const [location, setLocation] = useState({ pathname: window.location.pathname })
+  showLocation = setLocation
+
+  useEffect(() => {
+    startRuntime(renderPage)
+  }, [])
+
+  useEffect(() => {
+    if (pageRendered) {
+      pageRendered()
+      pageRendered = null
+    }
+  }, [location])
+
+  const Page = pageForPath(location.pathname)
+  return (
+    <div className="magicPage">
+      <Page />
+    </div>
+  )
+}
+`
+}
+
+const mainSource = `import { createRoot } from "react-dom/client"
+import App from "./App"
+
+createRoot(document.getElementById("root")).render(<App />)
+`
+
+const viteConfigSource = `import { defineConfig } from "vite"
+import react from "@vitejs/plugin-react"
+
+export default defineConfig({
+  plugins: [react()],
+})
+`
+
+function packageSource(name: string): string {
+  return JSON.stringify({
+    name: words(name.toLowerCase()).join("-") || "site",
+    private: true,
+    version: "0.0.0",
+    type: "module",
+    scripts: {
+      dev: "vite",
+      build: "vite build",
+      preview: "vite preview",
+    },
+    dependencies: {
+      "react": "^18.2.0",
+      "react-dom": "^18.2.0",
+    },
+    devDependencies: {
+      "@vitejs/plugin-react": "^4.2.0",
+      "vite": "^5.0.0",
+    },
+  }, null, 2) + "\n"
+}
+
+function indexSource(data: ConversionResult): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <base href="/">
+    <title>${data.name}</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <link rel="stylesheet" href="/styles.css">
+    ${data.favicon ? '<link rel="icon" href="/favicon.ico">' : ''}
+    ${fontLinks(data)}
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`
+}
+
+export function compileReactApp(data: ConversionResult): PackagedWebsite {
+  const app: PackagedWebsite = {
+    name: `${data.name} (React)`,
+    files: {},
+    blobs: {}
+  }
+  const addFile = (path: string, content: string) => {
+    const hash = sha1(content)
+    app.files[path] = hash
+    app.blobs[hash] = content
+  }
+
+  const pages: { [path: string]: Node[] } = {}
+  for (const path in data.pathToHtml) {
+    pages[path] = parseHtml(data.pathToHtml[path])
+  }
+  const templates: { [tagName: string]: Node[] } = {}
+  for (const tagName in data.components) {
+    templates[tagName] = parseHtml(data.components[tagName])
+  }
+
+  const taken: { [name: string]: boolean } = { App: true }
+  const pageNames: { [path: string]: string } = {}
+  for (const path of Object.keys(pages).sort()) {
+    const name = pascalCase(path.replace(/(index)?\.html$/, "")) || "Home"
+    pageNames[path] = uniqueName(`${name}Page`, taken, "")
+  }
+
+  // Custom elements are named after their component, with a hash telling same-named ones apart
+  const componentNames: JsxContext["componentNames"] = {}
+  for (const tagName of Object.keys(data.components).sort()) {
+    const name = pascalCase(tagName.replace(/^magic-/, "").replace(/-[0-9a-f]{6}$/, "")) || "Component"
+    componentNames[tagName] = taken[name] ? uniqueName(pascalCase(tagName.replace(/^magic-/, "")), taken, "") : uniqueName(name, taken, "")
+  }
+
+  const documents = Object.keys(pages).map(path => pages[path]).concat(Object.keys(templates).map(tagName => templates[tagName]))
+  const componentProps = collectComponentProps(templates, documents)
+
+  for (const tagName in templates) {
+    const name = componentNames[tagName]
+    const ctx: JsxContext = { componentNames, componentProps, props: componentProps[tagName], used: {} }
+    addFile(`/src/components/${name}.jsx`, componentSource(name, templates[tagName], ctx))
+  }
+
+  for (const path in pages) {
+    const name = pageNames[path]
+    const ctx: JsxContext = { componentNames, componentProps, props: {}, used: {} }
+    addFile(`/src/pages/${name}.jsx`, pageSource(name, pages[path], breakpointStyles(data.breakpoints[path] || []), ctx))
+  }
+
+  addFile("/src/App.jsx", appSource(pageNames, data.frameIdToPath[data.startFrameId] || Object.keys(pages).sort()[0]))
+  addFile("/src/main.jsx", mainSource)
+  addFile("/src/runtime.js", runtimeModule(data))
+  addFile("/index.html", indexSource(data))
+  addFile("/package.json", packageSource(data.name))
+  addFile("/vite.config.js", viteConfigSource)
+  addFile("/public/styles.css", `${baseStyles}${data.css}\n`)
+
+  for (const imageHash in data.images) {
+    const img = data.images[imageHash]
+    app.files[`/public${img.path}`] = imageHash
+    app.blobs[imageHash] = img.bytes
+  }
+
+  if (data.favicon) {
+    const hash = hashBytes(data.favicon)
+    app.files["/public/favicon.ico"] = hash
+    app.blobs[hash] = data.favicon
+  }
+
+  return app
+}
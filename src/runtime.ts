@@ -0,0 +1,621 @@
+import { ConversionResult } from './convert'
+
+// Apps exported as code pass renderPage to draw pages themselves. It resolves once the page for
+// the URL is in the document.
+export type PageRenderer = (url: string, history: "push" | "replace" | "none") => Promise<void>
+
+// This function must not depend on anything else in this file! This is serialized to a string
+// and injected into the running page. For the same reason it can't use async/await or object
+// spread, which TypeScript compiles into helpers that live outside the function.
+const injectRuntime = (frameIdToPath: ConversionResult["frameIdToPath"], actions: ConversionResult["actions"], renderPage?: PageRenderer) => {
+  console.log("Booting magic button website", frameIdToPath, actions)
+
+  const easings: { [type: string]: string } = {
+    EASE_IN: "ease-in",
+    EASE_OUT: "ease-out",
+    EASE_IN_AND_OUT: "ease-in-out",
+    LINEAR: "linear",
+  }
+
+  const directions: { [direction: string]: number[] } = {
+    LEFT: [-1, 0],
+    RIGHT: [1, 0],
+    TOP: [0, -1],
+    BOTTOM: [0, 1],
+  }
+
+  let navigating = false
+
+  // Open overlay layers, innermost last, and what had focus before each one opened
+  const openOverlays: HTMLElement[] = []
+  const focusBeforeOverlay: (Element | null)[] = []
+
+  // Pending timeouts and delayed actions, with the page or overlay that started them
+  let timers: { root: Element, id: number }[] = []
+
+  // Pages set the site root as their base URL. It's pinned to an absolute URL so that relative
+  // URLs in pages drawn after pushState still resolve against the root.
+  const siteRoot = document.baseURI
+  const base = document.querySelector("base")
+  if (base) base.href = siteRoot
+
+  // Opened from disk, pages can't be fetched
+  const offline = window.location.protocol === "file:"
+  // Sites opened from disk or from a bucket link to each index.html, as directories don't open it
+  const indexFileLinks = offline || window.location.pathname.endsWith("/index.html")
+
+  function pathToUrl(path: string): string {
+    const url = new URL("." + path, siteRoot).href
+    return !indexFileLinks && url.endsWith("index.html") ? url.slice(0, url.indexOf("index.html")) : url
+  }
+
+  // Offset along the direction of travel, as a percentage of the viewport
+  function translate(direction: string, amount: number): string {
+    const [dx, dy] = directions[direction]
+    return `translate(${dx * amount}vw, ${dy * amount}vh)`
+  }
+
+  function animate(element: HTMLElement, keyframes: Keyframe[], transition: Transition): Promise<void> {
+    return new Promise(resolve => {
+      const animation = element.animate(keyframes, {
+        duration: transition.duration * 1000,
+        easing: easings[transition.easing.type] || "ease",
+        fill: "both",
+      })
+      animation.onfinish = () => resolve()
+    })
+  }
+
+  function runTransition(oldPage: HTMLElement, newPage: HTMLElement, transition: Transition): Promise<void[]> {
+    const none = "translate(0, 0)"
+    switch (transition.type) {
+      case "MOVE_IN":
+        newPage.style.zIndex = "1"
+        return Promise.all([
+          animate(newPage, [{ transform: translate(transition.direction, -100) }, { transform: none }], transition),
+        ])
+
+      case "MOVE_OUT":
+        oldPage.style.zIndex = "1"
+        return Promise.all([
+          animate(oldPage, [{ transform: none }, { transform: translate(transition.direction, 100) }], transition),
+        ])
+
+      case "PUSH":
+        return Promise.all([
+          animate(newPage, [{ transform: translate(transition.direction, -100) }, { transform: none }], transition),
+          animate(oldPage, [{ transform: none }, { transform: translate(transition.direction, 100) }], transition),
+        ])
+
+      case "SLIDE_IN":
+        newPage.style.zIndex = "1"
+        return Promise.all([
+          animate(newPage, [{ transform: translate(transition.direction, -100) }, { transform: none }], transition),
+          animate(oldPage, [{ transform: none }, { transform: translate(transition.direction, 30) }], transition),
+        ])
+
+      case "SLIDE_OUT":
+        oldPage.style.zIndex = "1"
+        return Promise.all([
+          animate(newPage, [{ transform: translate(transition.direction, -30) }, { transform: none }], transition),
+          animate(oldPage, [{ transform: none }, { transform: translate(transition.direction, 100) }], transition),
+        ])
+
+      default:
+        // Smart animate has no equivalent between unrelated pages, so it dissolves
+        newPage.style.zIndex = "1"
+        return Promise.all([
+          animate(newPage, [{ opacity: 0 }, { opacity: 1 }], transition),
+        ])
+    }
+  }
+
+  function overlayKeyframes(transition: Transition): Keyframe[] {
+    switch (transition.type) {
+      case "MOVE_IN":
+      case "PUSH":
+      case "SLIDE_IN":
+        return [{ transform: translate(transition.direction, -100) }, { transform: "translate(0, 0)" }]
+
+      default:
+        return [{ opacity: 0 }, { opacity: 1 }]
+    }
+  }
+
+  function overlayLayer(id: string): HTMLElement | null {
+    return document.querySelector(`.magicOverlay[data-overlay-id="${id}"]`)
+  }
+
+  function openOverlay(id: string, transition: Transition | null, relativePosition: Vector | undefined, trigger: HTMLElement | null) {
+    const layer = overlayLayer(id)
+    if (layer == null) return
+    const content = layer.firstElementChild as HTMLElement
+
+    if (relativePosition && trigger) {
+      const rect = trigger.getBoundingClientRect()
+      content.style.position = "absolute"
+      content.style.left = `${rect.left + relativePosition.x}px`
+      content.style.top = `${rect.top + relativePosition.y}px`
+    }
+
+    layer.hidden = false
+    openOverlays.push(layer)
+    focusBeforeOverlay.push(document.activeElement)
+    content.focus()
+    startTimeouts(layer)
+    if (transition != null) {
+      animate(content, overlayKeyframes(transition), transition)
+    }
+  }
+
+  function closeOverlay(layer: HTMLElement = openOverlays[openOverlays.length - 1]) {
+    const index = openOverlays.indexOf(layer)
+    if (index < 0) return
+    openOverlays.splice(index, 1)
+    const previousFocus = focusBeforeOverlay.splice(index, 1)[0]
+    layer.hidden = true
+    layer.style.pointerEvents = ""
+    clearTimers(layer)
+    if (previousFocus instanceof HTMLElement) previousFocus.focus()
+  }
+
+  function currentRoot(trigger: Element | null): Element {
+    const layer = trigger && trigger.closest(".magicOverlay")
+    return layer || document.querySelector(".magicPage")!
+  }
+
+  function schedule(root: Element, ms: number, callback: () => void) {
+    timers.push({ root, id: window.setTimeout(callback, ms) })
+  }
+
+  // Clears the timers started by a page or overlay, or all of them
+  function clearTimers(root: Element | null) {
+    timers = timers.filter(timer => {
+      if (root != null && timer.root !== root) return true
+      clearTimeout(timer.id)
+      return false
+    })
+  }
+
+  function startTimeouts(root: Element, within: Element = root) {
+    within.querySelectorAll("[data-magic-timeout]").forEach(el => {
+      // Skips closed overlays, and the layout a media query is hiding
+      if (el.getClientRects().length === 0) return
+      for (const entry of el.getAttribute("data-magic-timeout")!.split(" ")) {
+        const [actionId, ms] = entry.split(":").map(Number)
+        schedule(root, ms, () => {
+          // Unless its variant was changed for another one in the meantime
+          if (el.getClientRects().length > 0) runAction(actionId, el as HTMLElement)
+        })
+      }
+    })
+  }
+
+  // Interactive components have every variant they can change into drawn next to each other,
+  // with all but one hidden. Finds the variant in the component the trigger is in, or in the
+  // components around that.
+  function findVariant(trigger: Element | null, variantId: string): HTMLElement | null {
+    let container = trigger && trigger.closest(".magicVariants")
+    while (container != null) {
+      const variant = container.querySelector(`:scope > [data-variant="${variantId}"]`)
+      if (variant != null) return variant as HTMLElement
+      container = container.parentElement && container.parentElement.closest(".magicVariants")
+    }
+    return null
+  }
+
+  function showVariant(variant: HTMLElement) {
+    for (const child of Array.from(variant.parentElement!.children)) {
+      (child as HTMLElement).hidden = child !== variant
+    }
+    startTimeouts(currentRoot(variant), variant)
+  }
+
+  // Replaces the innermost overlay where it stands, rather than stacking another one on top.
+  // Overlays are only drawn on the pages that open them, so one that isn't here is shown as a page
+  // of its own instead.
+  function swapOverlay(id: string, transition: Transition | null, preserveScrollPosition: boolean) {
+    if (overlayLayer(id) == null) {
+      const path = frameIdToPath[id]
+      if (path != null) navigate(pathToUrl(path), transition, preserveScrollPosition, "replace")
+      return
+    }
+
+    const oldLayer = openOverlays[openOverlays.length - 1]
+    const oldContent = oldLayer.firstElementChild as HTMLElement
+    closeOverlay()
+    openOverlay(id, transition, undefined, null)
+
+    const newLayer = openOverlays[openOverlays.length - 1]
+    if (newLayer === oldLayer) return
+    const newContent = newLayer.firstElementChild as HTMLElement
+    if (oldContent.style.position === "absolute") {
+      newContent.style.position = "absolute"
+      newContent.style.left = oldContent.style.left
+      newContent.style.top = oldContent.style.top
+    }
+    if (preserveScrollPosition) {
+      newContent.scrollTop = oldContent.scrollTop
+    }
+  }
+
+  document.addEventListener("click", (ev) => {
+    const layer = openOverlays[openOverlays.length - 1]
+    if (layer && ev.target === layer && layer.hasAttribute("data-close-outside")) {
+      closeOverlay()
+    }
+  })
+
+  // Every page is pre-rendered, so client-side navigation fetches the destination and animates its
+  // contents in over the current page
+  function showPage(doc: Document, transition: Transition | null, preserveScrollPosition: boolean): Promise<void> {
+    const oldPage = document.querySelector(".magicPage") as HTMLElement
+    const newPage = doc.querySelector(".magicPage") as HTMLElement
+    if (oldPage == null || newPage == null) throw new Error("Page is missing its content")
+
+    document.title = doc.title
+    document.querySelectorAll("head style").forEach(style => style.remove())
+    doc.querySelectorAll("head style").forEach(style => document.head.appendChild(style))
+
+    const scrollY = window.scrollY
+    const newScrollY = preserveScrollPosition ? scrollY : 0
+    document.body.appendChild(newPage)
+    openOverlays.length = 0
+    focusBeforeOverlay.length = 0
+    clearTimers(null)
+
+    if (transition == null) {
+      oldPage.remove()
+      window.scrollTo(0, newScrollY)
+      startTimeouts(newPage)
+      return Promise.resolve()
+    }
+
+    // Pin both pages to the viewport for the duration of the animation
+    for (const [page, top] of [[oldPage, scrollY], [newPage, newScrollY]] as [HTMLElement, number][]) {
+      page.style.position = "fixed"
+      page.style.top = `${-top}px`
+      page.style.left = "0"
+      page.style.width = "100%"
+    }
+    document.body.style.overflow = "hidden"
+
+    return runTransition(oldPage, newPage, transition).then(() => {
+      oldPage.remove()
+      newPage.removeAttribute("style")
+      document.body.style.overflow = ""
+      window.scrollTo(0, newScrollY)
+      startTimeouts(newPage)
+    })
+  }
+
+  function navigate(url: string, transition: Transition | null, preserveScrollPosition: boolean, history: "push" | "replace" | "none") {
+    if (navigating) return
+    navigating = true
+
+    // Without transitions, as the app doesn't keep the old page around to animate it out
+    if (renderPage) {
+      renderPage(url, history).then(() => {
+        openOverlays.length = 0
+        focusBeforeOverlay.length = 0
+        clearTimers(null)
+        if (!preserveScrollPosition) window.scrollTo(0, 0)
+        startTimeouts(document.querySelector(".magicPage")!)
+        navigating = false
+      })
+      return
+    }
+
+    if (offline) {
+      window.location.href = url
+      return
+    }
+
+    fetch(url).then(resp => {
+      if (!resp.ok) throw new Error(`Could not load ${url}: ${resp.status}`)
+      return resp.text()
+    }).then(html => {
+      const doc = new DOMParser().parseFromString(html, "text/html")
+      if (history === "push") window.history.pushState(null, "", url)
+      if (history === "replace") window.history.replaceState(null, "", url)
+      return showPage(doc, transition, preserveScrollPosition)
+    }).then(() => {
+      navigating = false
+    }).catch(e => {
+      console.error("Client-side navigation failed", e)
+      window.location.href = url
+    })
+  }
+
+  window.addEventListener("popstate", () => {
+    navigating = false
+    navigate(window.location.href, null, false, "none")
+  })
+
+  // Generated links keep working as links: modified clicks open a new tab as usual, and plain clicks
+  // are left to the link's click handler so transitions still play
+  document.addEventListener("click", (ev) => {
+    const link = (ev.target as Element).closest("a[href]")
+    if (link == null) return
+    if (ev.ctrlKey || ev.metaKey || ev.shiftKey || ev.button !== 0) {
+      ev.stopPropagation()
+    } else if (link.hasAttribute("onclick")) {
+      ev.preventDefault()
+    }
+  }, true)
+
+  // Keeps Tab inside the innermost overlay, as it's modal
+  function trapFocus(ev: KeyboardEvent, layer: HTMLElement) {
+    const content = layer.firstElementChild as HTMLElement
+    const focusable = Array.from(content.querySelectorAll("a[href], button, [tabindex]:not([tabindex='-1'])"))
+      .filter(el => el.getClientRects().length > 0) as HTMLElement[]
+    const first = focusable[0]
+    const last = focusable[focusable.length - 1]
+    const active = document.activeElement
+    const inside = active !== content && content.contains(active)
+    if (first == null) {
+      ev.preventDefault()
+      content.focus()
+    } else if (ev.shiftKey && (active === first || !inside)) {
+      ev.preventDefault()
+      last.focus()
+    } else if (!ev.shiftKey && (active === last || !inside)) {
+      ev.preventDefault()
+      first.focus()
+    }
+  }
+
+  // The element Enter or Space went down on, until the key comes up
+  let keyPressed: HTMLElement | null = null
+
+  // Buttons and links turn Enter and Space into clicks by themselves. Clickable divs, and nodes
+  // triggered by pointer events rather than clicks, need the key handled for them.
+  document.addEventListener("keydown", (ev) => {
+    if (ev.key === "Escape" && openOverlays.length > 0) {
+      closeOverlay()
+      return
+    }
+    if (ev.key === "Tab" && openOverlays.length > 0) {
+      trapFocus(ev, openOverlays[openOverlays.length - 1])
+      return
+    }
+    if (ev.key !== "Enter" && ev.key !== " ") return
+
+    const el = ev.target as HTMLElement
+    const native = el.tagName === "A" || el.tagName === "BUTTON"
+    if (!native && el.getAttribute("role") !== "button") return
+
+    // Handlers can be attributes or, in apps, props that the DOM doesn't show, so the element gets
+    // the events a pointer would send, held down for as long as the key is
+    if (!native) ev.preventDefault()
+    if (ev.repeat || keyPressed) return
+    keyPressed = el
+    el.dispatchEvent(new PointerEvent("pointerdown", { bubbles: true }))
+  })
+
+  // Links and buttons click by themselves
+  document.addEventListener("keyup", (ev) => {
+    if ((ev.key !== "Enter" && ev.key !== " ") || !keyPressed) return
+    const el = keyPressed
+    keyPressed = null
+    el.dispatchEvent(new PointerEvent("pointerup", { bubbles: true }))
+    if (el.tagName !== "A" && el.tagName !== "BUTTON") el.click()
+  })
+
+  // Apps start the runtime once their first page is drawn, which can be after the document loaded
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", () => {
+      startTimeouts(document.querySelector(".magicPage")!)
+    })
+  } else {
+    startTimeouts(document.querySelector(".magicPage")!)
+  }
+
+  // "While hovering": overlays close once the pointer leaves both the trigger and the overlay, and
+  // pages go back once it leaves where the trigger was
+  function hover(actionId: number, trigger: HTMLElement) {
+    const action = actions[actionId]
+
+    // The variant changes back once the pointer leaves the component
+    const variant = action.type === "NODE" && action.destinationId !== null ? findVariant(trigger, action.destinationId) : null
+    if (variant != null) {
+      const container = variant.parentElement!
+      const previous = Array.from(container.children).find(child => !(child as HTMLElement).hidden) as HTMLElement
+      showVariant(variant)
+      const leave = () => {
+        container.removeEventListener("mouseleave", leave)
+        if (!variant.hidden && previous) showVariant(previous)
+      }
+      container.addEventListener("mouseleave", leave)
+      return
+    }
+
+    if (action.type !== "NODE" || (action.navigation === "SWAP" && openOverlays.length > 0)) {
+      runAction(actionId, trigger)
+      return
+    }
+
+    if (action.navigation === "OVERLAY") {
+      const overlayCount = openOverlays.length
+      runAction(actionId, trigger)
+      if (openOverlays.length === overlayCount) return
+
+      const layer = openOverlays[openOverlays.length - 1]
+      const content = layer.firstElementChild as HTMLElement
+      // Let the pointer travel from the trigger to the overlay without hitting the backdrop
+      layer.style.pointerEvents = "none"
+      content.style.pointerEvents = "auto"
+
+      const leave = (ev: MouseEvent) => {
+        const to = ev.relatedTarget as Node | null
+        if (to != null && (trigger.contains(to) || content.contains(to))) return
+        trigger.removeEventListener("mouseleave", leave)
+        content.removeEventListener("mouseleave", leave)
+        closeOverlay(layer)
+      }
+      trigger.addEventListener("mouseleave", leave)
+      content.addEventListener("mouseleave", leave)
+      return
+    }
+
+    const rect = trigger.getBoundingClientRect()
+    const from = window.location.href
+    runAction(actionId, trigger)
+
+    const move = (ev: MouseEvent) => {
+      if (navigating) return
+      if (window.location.href === from) {
+        document.removeEventListener("mousemove", move)
+        return
+      }
+      if (ev.clientX >= rect.left && ev.clientX < rect.right && ev.clientY >= rect.top && ev.clientY < rect.bottom) return
+      document.removeEventListener("mousemove", move)
+      if (action.navigation === "SWAP") {
+        navigate(from, null, true, "replace")
+      } else {
+        window.history.back()
+      }
+    }
+    document.addEventListener("mousemove", move)
+  }
+
+  // "While pressing": the variant changes back once the pointer is released, wherever it is by then
+  function press(actionId: number, trigger: HTMLElement) {
+    const action = actions[actionId]
+    const variant = action.type === "NODE" && action.destinationId !== null ? findVariant(trigger, action.destinationId) : null
+    if (variant == null) {
+      runAction(actionId, trigger)
+      return
+    }
+
+    const previous = Array.from(variant.parentElement!.children).find(child => !(child as HTMLElement).hidden) as HTMLElement
+    showVariant(variant)
+    const release = () => {
+      document.removeEventListener("pointerup", release)
+      document.removeEventListener("pointercancel", release)
+      if (!variant.hidden && previous) showVariant(previous)
+    }
+    document.addEventListener("pointerup", release)
+    document.addEventListener("pointercancel", release)
+  }
+
+  // Fires once the pointer has moved far enough while held down
+  function drag(actionId: number, trigger: HTMLElement, start: PointerEvent) {
+    const move = (ev: PointerEvent) => {
+      if (Math.abs(ev.clientX - start.clientX) + Math.abs(ev.clientY - start.clientY) < 10) return
+      stop()
+      runAction(actionId, trigger)
+    }
+    const stop = () => {
+      document.removeEventListener("pointermove", move)
+      document.removeEventListener("pointerup", stop)
+    }
+    document.addEventListener("pointermove", move)
+    document.addEventListener("pointerup", stop)
+  }
+
+  ;(window as any)["magic_runAction"] = function(actionId: number, trigger: HTMLElement | null, delay?: number) {
+    if (delay) {
+      schedule(currentRoot(trigger), delay, () => runAction(actionId, trigger))
+    } else {
+      runAction(actionId, trigger)
+    }
+  }
+  ;(window as any)["magic_hover"] = hover
+  ;(window as any)["magic_press"] = press
+  ;(window as any)["magic_drag"] = drag
+
+  function runAction(actionId: number, trigger: HTMLElement | null) {
+    const action = actions[actionId]
+    switch(action.type) {
+      case "NODE": {
+        const variant = action.destinationId !== null ? findVariant(trigger, action.destinationId) : null
+        if (variant != null) {
+          showVariant(variant)
+        } else if (action.navigation === "OVERLAY") {
+          if (action.destinationId !== null) {
+            openOverlay(action.destinationId, action.transition, action.overlayRelativePosition, trigger)
+          }
+        } else if (action.navigation === "SWAP" && openOverlays.length > 0) {
+          if (action.destinationId !== null) {
+            swapOverlay(action.destinationId, action.transition, action.preserveScrollPosition)
+          }
+        } else if (action.destinationId !== null) {
+          // Swapping the page itself is a navigation that doesn't leave a history entry behind
+          let path = frameIdToPath[action.destinationId]
+          if (path != null) {
+            const history = action.navigation === "SWAP" ? "replace" : "push"
+            navigate(pathToUrl(path), action.transition, action.preserveScrollPosition, history)
+          }
+        }
+        break
+      }
+
+      case "URL": {
+        window.location.href = action.url
+        break
+      }
+
+      case "CLOSE": {
+        closeOverlay()
+        break
+      }
+
+      case "BACK": {
+        // Overlays don't get history entries of their own, so going back from one closes it
+        if (openOverlays.length > 0) {
+          closeOverlay()
+        } else {
+          window.history.back()
+        }
+        break
+      }
+    }
+  }
+}
+
+export function serializeRuntime(result: ConversionResult): string {
+  return `<script>(${injectRuntime.toString()})(${JSON.stringify(result.frameIdToPath)}, ${JSON.stringify(result.actions)})</script>`
+}
+
+// Defines the custom element drawing each component's instances. Serialized the same way as
+// injectRuntime, into a script that every page loads before its content.
+const defineComponents = (templates: ConversionResult["components"]) => {
+  Object.keys(templates).forEach(tagName => {
+    const template = document.createElement("template")
+    template.innerHTML = templates[tagName]
+
+    customElements.define(tagName, class extends HTMLElement {
+      connectedCallback() {
+        // Already drawn, and only moved onto a new page
+        if (this.hasChildNodes()) return
+
+        // Attributes such as label-content change the layer marked data-part="label"
+        const content = template.content.cloneNode(true) as DocumentFragment
+        Array.from(this.attributes).forEach(attribute => {
+          const match = /^(.+)-(hidden|class|content)$/.exec(attribute.name)
+          const part = match && content.querySelector(`[data-part="${match[1]}"]`)
+          if (match == null || part == null) return
+
+          if (match[2] === "hidden") {
+            part.parentElement!.remove()
+          } else if (match[2] === "content") {
+            part.innerHTML = attribute.value
+          } else {
+            part.setAttribute("class", attribute.value)
+          }
+        })
+        this.appendChild(content)
+      }
+    })
+  })
+}
+
+// For apps exported as code, a module that starts the runtime
+export function runtimeModule(result: ConversionResult): string {
+  return `export function startRuntime(renderPage) {\n  (${injectRuntime.toString()})(${JSON.stringify(result.frameIdToPath)}, ${JSON.stringify(result.actions)}, renderPage)\n}\n`
+}
+
+export function serializeComponents(components: ConversionResult["components"]): string {
+  return `(${defineComponents.toString()})(${JSON.stringify(components)})`
+}
@@ -0,0 +1,196 @@
+import sha1 from 'sha1'
+import { Breakpoint, ConversionResult } from './convert'
+import { PackagedWebsite } from './deploy'
+import { hashBytes } from './images'
+import { serializeComponents, serializeRuntime } from './runtime'
+
+// Rules shared by every page, ahead of the classes generated by the converter
+export const baseStyles = `body {
+  padding: 0;
+  margin: 0;
+  width: 100%;
+  overflow-x: hidden;
+}
+.outerDiv {
+  position: absolute;
+  top: 0;
+  display: flex;
+  width: 100%;
+  pointer-events: none;
+}
+.autolayoutHChild, .autolayoutVChild {
+  pointer-events: none;
+  display: flex;
+}
+.innerDiv {
+  position: relative;
+  box-sizing: border-box;
+  pointer-events: auto;
+}
+a, button {
+  display: block;
+  color: inherit;
+  text-decoration: none;
+}
+button {
+  padding: 0;
+  border: none;
+  background: none;
+  font: inherit;
+  text-align: inherit;
+  cursor: pointer;
+}
+h1, h2, h3, h4, h5, h6 {
+  margin: 0;
+  font-size: inherit;
+  font-weight: inherit;
+}
+.magicFixed {
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  z-index: 1;
+  pointer-events: none;
+}
+.magicHoverable:not(:hover) > .magicHoverVariant,
+.magicHoverable:hover > .magicDefaultVariant,
+.magicPressable:not(:active) > .magicPressVariant,
+.magicPressable:active > .magicDefaultVariant,
+.magicPressable:active > .magicHoverVariant,
+.magicVariants > [hidden] {
+  display: none;
+}
+.magicOverlay {
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  display: flex;
+  z-index: 10;
+}
+.magicOverlay[hidden] {
+  display: none;
+}
+.magicOverlayContent {
+  position: relative;
+  flex-shrink: 0;
+  box-sizing: border-box;
+  outline: none;
+}
+`
+
+// Only the frame for the current window width is shown. Breakpoints come in increasing order, every
+// frame is hidden except the first, and each breakpoint swaps in its frame for the one before it.
+export function breakpointStyles(breakpoints: Breakpoint[]): string {
+  if (breakpoints.length < 2) return ""
+
+  const [first, ...wider] = breakpoints
+  const rules = [
+    `.${first.className} {\n  display: flex;\n  overflow-x: hidden;\n}`,
+    `${wider.map(breakpoint => `.${breakpoint.className}`).join(", ")} {\n  display: none;\n}`,
+  ]
+  breakpoints.slice(1).forEach((breakpoint, i) => {
+    rules.push(`@media only screen and (min-width: ${breakpoint.minWidth}px) {\n` +
+      `  .${breakpoints[i].className} {\n    display: none;\n  }\n` +
+      `  .${breakpoint.className} {\n    display: flex;\n  }\n}`)
+  })
+
+  return rules.join("\n")
+}
+
+export function fontLinks(data: ConversionResult): string {
+  return (Object.keys(data.fonts).map(fontName => {
+    return `<link href="https://fonts.googleapis.com/css2?family=${fontName}&display=swap" rel="stylesheet">`
+  })).join("")
+}
+
+// Every URL in a page is relative to the site root, wherever the site ends up being hosted
+function baseHref(path: string): string {
+  return "../".repeat(path.split("/").length - 2) || "./"
+}
+
+export interface CompileOptions {
+  // For opening from disk or from a bucket's REST endpoint, where links to a directory don't open
+  // its index.html
+  indexFileLinks?: boolean
+}
+
+function linkIndexFiles(html: string): string {
+  return html.replace(/ href="([^":]*\/)"/g, ' href="$1index.html"')
+}
+
+export function compileSite(data: ConversionResult, options: CompileOptions = {}): PackagedWebsite {
+  const site: PackagedWebsite = {
+    name: data.name,
+    files: {},
+    blobs: {}
+  }
+
+  const fontLoadingHTML = fontLinks(data)
+
+  // Component instances are drawn inside their custom elements, which mustn't get in the way of
+  // the layout
+  const componentTags = Object.keys(data.components).sort()
+  const componentStyles = componentTags.length > 0 ? `${componentTags.join(", ")} {\n  display: contents;\n}\n` : ""
+
+  const stylesheet = `${baseStyles}${componentStyles}${data.css}\n`
+  const stylesheetHash = sha1(stylesheet)
+  site.files["/styles.css"] = stylesheetHash
+  site.blobs[stylesheetHash] = stylesheet
+
+  // Every page loads the components, since navigating between pages keeps the scripts loaded by
+  // the first one
+  let componentScriptHTML = ""
+  if (componentTags.length > 0) {
+    // In a fixed order, so the script is the same whichever order the components were found in
+    const components: ConversionResult["components"] = {}
+    for (const tagName of componentTags) {
+      components[tagName] = options.indexFileLinks ? linkIndexFiles(data.components[tagName]) : data.components[tagName]
+    }
+    const script = serializeComponents(components)
+    const scriptHash = sha1(script)
+    site.files["/components.js"] = scriptHash
+    site.blobs[scriptHash] = script
+    componentScriptHTML = '<script src="components.js"></script>'
+  }
+
+  for (let path in data.pathToHtml) {
+    const pageStyles = breakpointStyles(data.breakpoints[path] || [])
+    const content = `<html><head>
+    <base href="${baseHref(path)}">
+    <title>${data.name}</title>
+    <link rel="stylesheet" href="styles.css">
+    ${pageStyles !== "" ? `<style>\n${pageStyles}\n</style>` : ""}
+    ${componentScriptHTML}
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    ${data.favicon ? '<link rel="icon" href="favicon.ico">' : ''}
+    </head>
+    ${fontLoadingHTML}
+    ${serializeRuntime(data)}
+    <body><div class="magicPage">${options.indexFileLinks ? linkIndexFiles(data.pathToHtml[path]) : data.pathToHtml[path]}</div></body>
+    </html>`
+
+    const hash = sha1(content)
+    site.files[path] = hash
+    site.blobs[hash] = content
+  }
+
+  // Every image is keyed by the sha1 of its bytes already
+  for (let imageHash in data.images) {
+    const img = data.images[imageHash]
+    site.files[img.path] = imageHash
+    site.blobs[imageHash] = img.bytes
+  }
+
+  if (data.favicon) {
+    const hash = hashBytes(data.favicon)
+    site.files["/favicon.ico"] = hash
+    site.blobs[hash] = data.favicon
+  }
+
+  console.log(site)
+
+  return site
+}
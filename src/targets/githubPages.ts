@@ -0,0 +1,82 @@
+import { DeployTarget, DeployError, requireFields, toBytes, bytesToBase64, pathToKey } from "../deploy"
+
+async function githubRequest(method: string, url: string, token: string, body?: any): Promise<any> {
+  const opts: any = {
+    method,
+    headers: {
+      "Authorization": `token ${token}`,
+      "Accept": "application/vnd.github.v3+json",
+      "Content-Type": "application/json",
+    },
+  }
+  if (body !== undefined) opts.body = JSON.stringify(body)
+
+  const resp = await fetch(`https://api.github.com${url}`, opts)
+  if (resp.status === 404 && method === "GET") return null
+  if (resp.status < 200 || resp.status >= 300) {
+    throw new DeployError(`GitHub request ${method} ${url} failed: ${resp.status}`, resp.status)
+  }
+  return await resp.json()
+}
+
+// Publishes the site as a single commit on the Pages branch, replacing whatever was there before.
+// The repository needs Pages enabled for that branch.
+export const githubPages: DeployTarget = {
+  id: "github-pages",
+  name: "GitHub Pages",
+  fields: [
+    { key: "repo", label: "Repository", placeholder: "owner/name" },
+    { key: "branch", label: "Branch", placeholder: "gh-pages", optional: true },
+    { key: "token", label: "Personal access token", secret: true },
+  ],
+
+  async deploy(site, config, onProgress) {
+    requireFields(githubPages, config)
+    const { repo, token } = config
+    const branch = config.branch || "gh-pages"
+    const [owner, name] = repo.split("/")
+    if (!owner || !name) throw new DeployError(`GitHub Pages: expected repository as owner/name, got "${repo}"`)
+
+    onProgress({ message: `Looking up ${branch}` })
+    const ref = await githubRequest("GET", `/repos/${repo}/git/ref/heads/${branch}`, token)
+
+    // Identical content shares a blob, so upload each hash once
+    const blobShas: {[hash: string]: string} = {}
+    const hashes = Object.keys(site.blobs)
+    let done = 0
+    for (const hash of hashes) {
+      const blob = await githubRequest("POST", `/repos/${repo}/git/blobs`, token, {
+        content: bytesToBase64(toBytes(site.blobs[hash])),
+        encoding: "base64",
+      })
+      blobShas[hash] = blob.sha
+      done++
+      onProgress({ message: `Uploaded ${done} of ${hashes.length} files`, done, total: hashes.length })
+    }
+
+    onProgress({ message: "Committing" })
+    const tree = await githubRequest("POST", `/repos/${repo}/git/trees`, token, {
+      tree: Object.keys(site.files).map(path => ({
+        path: pathToKey(path),
+        mode: "100644",
+        type: "blob",
+        sha: blobShas[site.files[path]],
+      })),
+    })
+
+    const commit = await githubRequest("POST", `/repos/${repo}/git/commits`, token, {
+      message: "Deploy from Magic Button",
+      tree: tree.sha,
+      parents: ref ? [ref.object.sha] : [],
+    })
+
+    if (ref) {
+      await githubRequest("PATCH", `/repos/${repo}/git/refs/heads/${branch}`, token, { sha: commit.sha, force: true })
+    } else {
+      await githubRequest("POST", `/repos/${repo}/git/refs`, token, { ref: `refs/heads/${branch}`, sha: commit.sha })
+    }
+
+    const url = name.toLowerCase() === `${owner.toLowerCase()}.github.io` ? `https://${name}/` : `https://${owner}.github.io/${name}/`
+    return { url }
+  }
+}
@@ -0,0 +1,12 @@
+import { DeployTarget } from "../deploy"
+import { netlify } from "./netlify"
+import { githubPages } from "./githubPages"
+import { s3 } from "./s3"
+import { zip } from "./zip"
+import { reactApp } from "./reactApp"
+
+export const deployTargets: DeployTarget[] = [netlify, zip, reactApp, githubPages, s3]
+
+export function getDeployTarget(id: string): DeployTarget {
+  return deployTargets.find(target => target.id === id) || netlify
+}
@@ -0,0 +1,119 @@
+import { DeployTarget, DeployError, DeployResult, PackagedWebsite, ProgressCallback, requireFields, runWithConcurrency, withRetries } from "../deploy"
+
+const uploadConcurrency = 4
+
+export function netlifyRequest(method: string, url: string, token: string, body: any, contentType: string) {
+  if (contentType === "application/json") {
+    body = JSON.stringify(body)
+  }
+
+  const opts: any = {
+    method,
+    headers: {
+      "Authorization": `Bearer ${token}`,
+      "Content-Type": contentType,
+    },
+  }
+
+  if (method !== "GET") opts.body = body
+
+  return fetch(url, opts)
+}
+
+export interface NetlifySite {
+  id: string
+  url: string
+}
+
+export async function createNetlifySite(token: string): Promise<NetlifySite> {
+  const resp = await netlifyRequest('POST', `https://api.netlify.com/api/v1/sites`, token, "", "text/html")
+  if (resp.status !== 201) {
+    throw new DeployError(`Could not create a new Netlify site: ${resp.status}`, resp.status)
+  }
+  const result = await resp.json()
+  return { id: result.site_id, url: result.url }
+}
+
+async function deployToSite(site: PackagedWebsite, token: string, siteId: string, onProgress: ProgressCallback): Promise<DeployResult> {
+  onProgress({ message: "Creating deploy" })
+  const resp = await netlifyRequest('POST', `https://api.netlify.com/api/v1/sites/${siteId}/deploys`, token, {
+    files: site.files
+  }, "application/json")
+
+  if (resp.status !== 200) {
+    throw new DeployError(`Could not create deploy: ${resp.status}`, resp.status)
+  }
+
+  const result = await resp.json()
+  const deployId = result.id
+
+  // Netlify already has every file whose hash isn't listed as required, and only needs one
+  // upload per hash even when several paths share it.
+  const required: string[] = result.required || []
+  const pathForHash: {[hash: string]: string} = {}
+  for (const path of Object.keys(site.files)) {
+    pathForHash[site.files[path]] = path
+  }
+  const paths = required.map(hash => pathForHash[hash]).filter(path => path != null)
+
+  if (paths.length === 0) {
+    onProgress({ message: "All files are already uploaded", done: 0, total: 0 })
+  }
+
+  let done = 0
+  await runWithConcurrency(paths, uploadConcurrency, async (path) => {
+    const blob = site.blobs[site.files[path]]
+    const url = `https://api.netlify.com/api/v1/deploys/${deployId}/files/${path}`
+
+    await withRetries(async () => {
+      let upload: Response
+      try {
+        upload = await netlifyRequest('PUT', url, token, blob, "application/octet-stream")
+      } catch (e) {
+        throw new DeployError(`Could not upload ${path}: ${e.message}`)
+      }
+      if (upload.status !== 200) {
+        throw new DeployError(`Could not upload ${path}: ${upload.status}`, upload.status)
+      }
+    })
+
+    done++
+    onProgress({ message: `Uploaded ${path}`, done, total: paths.length })
+  })
+
+  return { url: result.ssl_url || result.url || null }
+}
+
+// The token comes from the OAuth flow in the UI rather than from a field, and siteId from the site
+// selector, so neither is listed in `fields`. Without a siteId, a new site is created.
+export const netlify: DeployTarget = {
+  id: "netlify",
+  name: "Netlify",
+  fields: [],
+
+  async deploy(site, config, onProgress) {
+    requireFields(netlify, config)
+    const { token } = config
+    if (!token) throw new DeployError("Netlify: not connected")
+
+    let siteId = config.siteId
+    if (!siteId) {
+      onProgress({ message: "Creating site" })
+      siteId = (await createNetlifySite(token)).id
+    }
+
+    let result: DeployResult
+    try {
+      result = await deployToSite(site, token, siteId, onProgress)
+    } catch (e) {
+      if (!config.siteId || !(e instanceof DeployError) || e.status !== 404) throw e
+
+      // The site was deleted on Netlify's side since we last listed it
+      onProgress({ message: "Creating site" })
+      siteId = (await createNetlifySite(token)).id
+      result = await deployToSite(site, token, siteId, onProgress)
+    }
+
+    return siteId === config.siteId ? result : { ...result, config: { siteId } }
+  }
+}
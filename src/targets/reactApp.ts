@@ -0,0 +1,17 @@
+import { DeployTarget } from "../deploy"
+import { compileReactApp } from "../reactExport"
+import { downloadZip } from "./zip"
+
+// The design as the source of a React app rather than a built site, to keep working on in code
+export const reactApp: DeployTarget = {
+  id: "react",
+  name: "Download as React app",
+  fields: [],
+  compile: compileReactApp,
+
+  async deploy(app, config, onProgress) {
+    onProgress({ message: "Packing archive" })
+    downloadZip(app, app.name)
+    return { url: null }
+  }
+}
@@ -0,0 +1,106 @@
+import { DeployTarget, DeployError, requireFields, toBytes, pathToKey, contentTypeForPath } from "../deploy"
+import { compileSite } from "../site"
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(b => ("0" + b.toString(16)).slice(-2)).join("")
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data)))
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"])
+  return await crypto.subtle.sign("HMAC", cryptoKey, new TextEncoder().encode(data))
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(segment => {
+    return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  }).join("/")
+}
+
+interface SignedPut {
+  url: string
+  headers: {[name: string]: string}
+}
+
+// AWS Signature Version 4 for a single path-style PUT. The payload is left unsigned so we don't
+// have to hash every image before uploading it.
+async function signPut(config: {[key: string]: string}, key: string, contentType: string): Promise<SignedPut> {
+  const endpoint = new URL(config.endpoint)
+  const region = config.region || "us-east-1"
+  const path = `${endpoint.pathname.replace(/\/+$/, "")}/${config.bucket}/${encodeKey(key)}`
+
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "")
+  const date = amzDate.slice(0, 8)
+  const scope = `${date}/${region}/s3/aws4_request`
+
+  const headers: {[name: string]: string} = {
+    "content-type": contentType,
+    "host": endpoint.host,
+    "x-amz-content-sha256": "UNSIGNED-PAYLOAD",
+    "x-amz-date": amzDate,
+  }
+  const signedHeaders = Object.keys(headers).join(";")
+  const canonicalRequest = [
+    "PUT",
+    path,
+    "",
+    Object.keys(headers).map(name => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders,
+    "UNSIGNED-PAYLOAD",
+  ].join("\n")
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, await sha256Hex(canonicalRequest)].join("\n")
+
+  let signingKey = await hmac(new TextEncoder().encode(`AWS4${config.secretAccessKey}`), date)
+  for (const part of [region, "s3", "aws4_request"]) {
+    signingKey = await hmac(signingKey, part)
+  }
+  const signature = toHex(await hmac(signingKey, stringToSign))
+
+  // The browser sets Host itself
+  delete headers["host"]
+  headers["authorization"] = `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+
+  return { url: `${endpoint.protocol}//${endpoint.host}${path}`, headers }
+}
+
+// Works with AWS S3 and S3-compatible stores such as MinIO. The bucket needs a CORS rule allowing
+// PUT from the plugin, and a policy making objects publicly readable if the site should be served.
+// Pages link to each index.html, since only a bucket's website endpoint opens them for a directory.
+export const s3: DeployTarget = {
+  id: "s3",
+  name: "S3-compatible bucket",
+  fields: [
+    { key: "endpoint", label: "Endpoint", placeholder: "https://s3.us-east-1.amazonaws.com", url: true },
+    { key: "region", label: "Region", placeholder: "us-east-1", optional: true },
+    { key: "bucket", label: "Bucket" },
+    { key: "accessKeyId", label: "Access key ID" },
+    { key: "secretAccessKey", label: "Secret access key", secret: true },
+    { key: "publicUrl", label: "Public URL", placeholder: "https://www.example.com", optional: true, url: true },
+  ],
+  compile: result => compileSite(result, { indexFileLinks: true }),
+
+  async deploy(site, config, onProgress) {
+    requireFields(s3, config)
+
+    const paths = Object.keys(site.files)
+    let done = 0
+    for (const path of paths) {
+      const key = pathToKey(path)
+      const contentType = contentTypeForPath(path)
+      const { url, headers } = await signPut(config, key, contentType)
+      const resp = await fetch(url, { method: "PUT", headers, body: toBytes(site.blobs[site.files[path]]) })
+      if (resp.status !== 200) {
+        throw new DeployError(`Could not upload ${key}: ${resp.status}`, resp.status)
+      }
+      done++
+      onProgress({ message: `Uploaded ${done} of ${paths.length} files`, done, total: paths.length })
+    }
+
+    const url = config.publicUrl || `${config.endpoint.replace(/\/+$/, "")}/${config.bucket}/index.html`
+    return { url }
+  }
+}
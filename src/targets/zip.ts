@@ -0,0 +1,38 @@
+import { DeployTarget, PackagedWebsite, toBytes, pathToKey } from "../deploy"
+import { compileSite } from "../site"
+import { createZip } from "../zip"
+
+export function downloadBytes(bytes: Uint8Array, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([bytes], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Downloads the files as an archive, at their paths without the leading slash
+export function downloadZip(site: PackagedWebsite, filename: string) {
+  const entries = Object.keys(site.files).sort().map(path => ({
+    path: pathToKey(path),
+    bytes: toBytes(site.blobs[site.files[path]]),
+  }))
+  downloadBytes(createZip(entries), `${filename.replace(/[\\/:*?"<>|]+/g, "-") || "site"}.zip`, "application/zip")
+}
+
+// Doesn't need an account anywhere: the archive mirrors the paths the site would be served from,
+// and its pages open straight from disk.
+export const zip: DeployTarget = {
+  id: "zip",
+  name: "Download as ZIP",
+  fields: [],
+  compile: result => compileSite(result, { indexFileLinks: true }),
+
+  async deploy(site, config, onProgress) {
+    onProgress({ message: "Packing archive" })
+    downloadZip(site, site.name)
+    return { url: null }
+  }
+}
@@ -1,198 +1,44 @@
 import * as React from 'react'
 import * as ReactDOM from 'react-dom'
 import './ui.css'
-import sha1 from 'sha1'
 import { useRef, useState, useEffect } from 'react'
-import { ConversionResult } from './convert'
+import { ConversionResult, ConversionWarning } from './convert'
+import { compileSite } from './site'
+import { DeployError, DeployTarget, ProgressCallback, TargetConfig } from './deploy'
+import { deployTargets, getDeployTarget } from './targets/index'
+import { createNetlifySite, netlify, netlifyRequest, NetlifySite } from './targets/netlify'
+import { zip } from './targets/zip'
 
 const randomKey = Math.random(); // replace with stronger key later
 
-function netlifyRequest(method: string, url: string, token: string, body: any, contentType: string) {
-  if (contentType === "application/json") {
-    body = JSON.stringify(body)
-  }
-
-  const opts: any = {
-    method,
-    headers: {
-      "Authorization": `Bearer ${token}`,
-      "Content-Type": contentType,
-    },
-  }
-
-  if (method !== "GET") opts.body = body
-
-  return fetch(url, opts)
-}
-
 interface Site {
   url: string
   id: string
 }
 
-interface PackagedWebsite {
-  // Map from path to hash
-  files: {[path: string]: string}
-
-  // Map from hash to content
-  blobs: {[hash: string]: string | Uint8Array}
-}
-
-// This function must not depend on anything else in this file! This is serialized to a string
-// and injected into the running page.
-const injectRuntime = (frameIdToPath: ConversionResult["frameIdToPath"], actions: ConversionResult["actions"]) => {
-  console.log("Booting magic button website", frameIdToPath, actions)
-
-  ;(window as any)["magic_runAction"] = function(actionId: number) {
-    const action = actions[actionId]
-    switch(action.type) {
-      case "NODE": {
-        if (action.navigation === "NAVIGATE") {
-          if (action.destinationId !== null) {
-            let path = frameIdToPath[action.destinationId]
-            if (path != null) {
-              if (path.endsWith("index.html")) {
-                path = path.slice(0, path.indexOf("index.html"))
-              }
-              window.location.href = path
-            }
-          }
-        }
-        break
-      }
-
-      case "URL": {
-        window.location.href = action.url
-        break
-      }
-    }
-  }
-}
-
-function serializeRuntime(result: ConversionResult): string {
-  return `<script>(${injectRuntime.toString()})(${JSON.stringify(result.frameIdToPath)}, ${JSON.stringify(result.actions)})</script>`
-}
-
-function compileForNetlify(data: ConversionResult): PackagedWebsite {
-  const site: PackagedWebsite = {
-    files: {},
-    blobs: {}
-  }
-
-  let fontLoadingHTML = (Object.keys(data.fonts).map(fontName => {
-    return `<link href="https://fonts.googleapis.com/css2?family=${fontName}&display=swap" rel="stylesheet">`
-  })).join("")
-
-  for (let path in data.pathToHtml) {
-    const content = `<html><head>
-    <title>${data.name}</title>
-    <style>
-    body {
-      padding: 0;
-      margin: 0;
-      width: 100%;
-      overflow-x: hidden;
-    }
-    .outerDiv {
-      position: absolute;
-      top: 0;
-      display: flex;
-      width: 100%;
-      pointer-events: none;
-    }
-    ${data.hasMobileVersion[path] ? `
-    .desktop {
-      display: none;
-    }
-
-    .mobile {
-      display: flex;
-      overflow-x: hidden;
-    }
-
-    @media only screen and (min-width: 1024px) {
-      .desktop {
-        display: flex;
-      }
-
-      .mobile {
-        display: none;
-      }
-    }
-    ` : ''}
-    .autolayoutHChild, .autolayoutVChild {
-      pointer-events: none;
-      display: flex;
-    }
-    .innerDiv {
-      position: relative;
-      box-sizing: border-box;
-      pointer-events: auto;
-    }
-    </style>
-    <meta name="viewport" content="width=device-width, initial-scale=1">
-    ${data.favicon && '<link rel="icon" href="favicon.ico"'}
-    </head>
-    ${fontLoadingHTML}
-    ${serializeRuntime(data)}
-    <body>${data.pathToHtml[path]}</body>
-    </html>`
-
-    const hash = sha1(content)
-    site.files[path] = hash
-    site.blobs[hash] = content
-  }
-
-  for (let imageHash in data.images) {
-    const img = data.images[imageHash]
-    if (imageHash[0] === '_') {
-      // this is not a real hash, recompute the sha1
-      imageHash = sha1(Buffer.from(img.bytes))
-    }
-    site.files[img.path] = imageHash
-    site.blobs[imageHash] = img.bytes
-  }
-
-  if (data.favicon) {
-    const hash = sha1(Buffer.from(data.favicon))
-    site.files["favicon.ico"] = hash
-    site.blobs[hash] = data.favicon
-  }
-
-  console.log(site)
-
-  return site
-}
-
-const progressMessages = [
-  "Sprinkling pixie dust",
-  "Stirring cauldron",
-  "Waving wand",
-  "Gazing into crystal",
-  "Concocting elixir",
-  "Pulling rabbit out of hat",
-  "Eyeing a newt",
-  "Incanting spell",
-  "Pushing card up sleeve",
-  "Levitating",
-  "Straightening vials",
-  "Summoning spirit",
-  "Invoking the ancestors",
-]
-
-function randomMsg(): string {
-  const msgIdx = Math.floor(Math.random() * progressMessages.length)
-  return progressMessages[msgIdx]
-}
-
 function App() {
   const [token, setToken] = useState("")
   const [siteId, setSiteId] = useState("")
+  const [targetId, setTargetId] = useState(netlify.id)
+  const [targetConfigs, setTargetConfigs] = useState<{[targetId: string]: TargetConfig}>({})
+  // Per-document breakpoint overrides, as typed
+  const [breakpoints, setBreakpoints] = useState("")
+  const [imageDensity, setImageDensity] = useState("")
+  const [fontFallbacks, setFontFallbacks] = useState("")
   const [deployed, setDeployed] = useState(false)
+  const [deployedUrl, setDeployedUrl] = useState("")
   const [deploying, setDeploying] = useState(false)
   const [loaded, setLoaded] = useState(false)
   const [sites, setSites] = useState<Site[]>([])
   const [progressText, setProgressText] = useState("")
+  // Share of the files uploaded so far, once the target knows how many there are
+  const [progressFraction, setProgressFraction] = useState<number | null>(null)
+  const [error, setError] = useState("")
+  // Problems found while converting, shown for review before anything is published
+  const [warnings, setWarnings] = useState<ConversionWarning[]>([])
+  const lastHeight = useRef(0)
+  // Kept so that a failed deploy can be retried without converting the page again
+  const lastConversion = useRef<ConversionResult | null>(null)
 
   useEffect(() => {
     function handleMessage(ev: MessageEvent) {
@@ -200,14 +46,31 @@ function App() {
       if (msg.type === "init") {
         setToken(msg.token)
         setSiteId(msg.siteId)
+        setTargetId(getDeployTarget(msg.targetId).id)
+        setTargetConfigs(msg.targetConfigs)
+        setBreakpoints(msg.breakpoints)
+        setImageDensity(msg.imageDensity)
+        setFontFallbacks(msg.fontFallbacks)
 
         if (msg.token !== "") {
           getAvailableSites(msg.token)
+        } else {
+          setLoaded(true)
         }
         return
       } else if (msg.type == "conversion-result") {
         console.log("conversion-result", msg.content)
-        deploySite(msg.content)
+        const result: ConversionResult = msg.content
+        if (result.warnings.length > 0) {
+          lastConversion.current = result
+          setWarnings(result.warnings)
+          setDeploying(false)
+        } else {
+          deploySite(result)
+        }
+      } else if (msg.type === "conversion-error") {
+        setError(msg.nodeName ? `Could not convert "${msg.nodeName}": ${msg.message}` : `Could not convert this page: ${msg.message}`)
+        setDeploying(false)
       }
     }
     window.addEventListener("message", handleMessage)
@@ -216,82 +79,83 @@ function App() {
     }
   })
 
-  const deploySite = async (conversionResult: ConversionResult) => {
-    if (conversionResult === null) return
-
-    setProgressText(randomMsg())
-
-    let site = siteId
-
-    let found = false
-    for (const site of sites) {
-      if (site.id === siteId) {
-        found = true
-        break
-      }
-    }
-    if (!found) site = ""
-
-    if (site === "new" || site === "") {
-      site = await createNewSite(token)
-      if (site === "") return
+  useEffect(() => {
+    // Target settings forms make the content taller than the initial window
+    const height = document.body.scrollHeight
+    if (height !== lastHeight.current) {
+      lastHeight.current = height
+      parent.postMessage({ pluginMessage: { type: "resize", height } }, '*')
     }
+  })
 
-    const compiled = compileForNetlify(conversionResult)
-
-    let resp = await netlifyRequest('POST', `https://api.netlify.com/api/v1/sites/${site}/deploys`, token, {
-      files: compiled.files
-    }, "application/json")
+  // Without a Netlify account, fall back to the export that doesn't need one
+  const currentTarget = () => token === "" && targetId === netlify.id ? zip : getDeployTarget(targetId)
 
-    if (resp.status === 404) {
-      site = await createNewSite(token)
-      if (site === "") return
-      resp = await netlifyRequest('POST', `https://api.netlify.com/api/v1/sites/${site}/deploys`, token, {
-        files: compiled.files
-      }, "application/json")
+  const reportProgress: ProgressCallback = (progress) => {
+    setProgressText(progress.message)
+    if (progress.total != null && progress.done != null) {
+      setProgressFraction(progress.total === 0 ? 1 : progress.done / progress.total)
     }
+  }
 
-    if (resp.status !== 200) {
-      console.error(`Could not create deploy: ${resp.status}`)
+  // Netlify is set up through the account connection and site selector rather than through fields
+  const configFor = (target: DeployTarget): TargetConfig => {
+    if (target !== netlify) return targetConfigs[target.id] || {}
+    const known = sites.some(site => site.id === siteId)
+    return { token, siteId: known ? siteId : "" }
+  }
+
+  // Keeps what the target picked while deploying, so the next deploy goes to the same place
+  const rememberConfig = (target: DeployTarget, config: TargetConfig, url: string | null) => {
+    if (target === netlify) {
+      setSiteId(config.siteId)
+      setSites([...sites, { id: config.siteId, url: url || "" }])
+      parent.postMessage({ pluginMessage: { type: "netlify-site", site_id: config.siteId } }, '*')
       return
     }
+    const merged = { ...targetConfigs[target.id], ...config }
+    setTargetConfigs({ ...targetConfigs, [target.id]: merged })
+    parent.postMessage({ pluginMessage: { type: "target-config", target_id: target.id, config: merged } }, '*')
+  }
 
-    const result = await resp.json()
-    const deployId = result.id
-
-    const uploads = Object.keys(compiled.files).map(async (path) => {
-      const hash = compiled.files[path]
-      const blob = compiled.blobs[hash]
-
-      const url = `https://api.netlify.com/api/v1/deploys/${deployId}/files/${path}`
-      try {
-        console.log(`Uploading ${path}...`)
-        await netlifyRequest('PUT', url, token, blob, "application/octet-stream")
-        console.log(`Successfully uploaded ${path}...`)
-      } catch(e) {
-        console.log(`Failed to upload ${path}...`)
-        throw e
-      }
-    })
+  const deploySite = async (conversionResult: ConversionResult) => {
+    if (conversionResult === null) return
 
-    await Promise.all(uploads)
+    lastConversion.current = conversionResult
+    setProgressText("Packaging site")
+    const target = currentTarget()
 
-    if (resp.status !== 200) {
-      console.error(`Could not upload index.html: ${resp.status}`)
-      return
+    try {
+      const compiled = (target.compile || compileSite)(conversionResult)
+      const result = await target.deploy(compiled, configFor(target), reportProgress)
+      if (result.config) rememberConfig(target, result.config, result.url)
+      setDeployedUrl(result.url || "")
+      setDeployed(true)
+    } catch (e) {
+      console.error("Deploy failed", e)
+      setError(e instanceof DeployError ? e.message : `Deploy failed: ${e.message}`)
+    } finally {
+      setDeploying(false)
     }
-
-    setDeploying(false)
-    setDeployed(true)
   }
 
   const getAvailableSites = async (tok: string) => {
-    const resp = await netlifyRequest('GET', 'https://api.netlify.com/api/v1/sites', tok, "", "text/html")
+    let resp: Response
+    try {
+      resp = await netlifyRequest('GET', 'https://api.netlify.com/api/v1/sites', tok, "", "text/html")
+    } catch (e) {
+      setError(`Could not reach Netlify: ${e.message}`)
+      setLoaded(true)
+      return
+    }
     if (resp.status === 401) {
       setToken("")
       parent.postMessage({ pluginMessage: { type: "token-response", token: "" } }, '*')
+    } else if (resp.status !== 200) {
+      setError(`Could not list your Netlify sites: ${resp.status}`)
     }
     if (resp.status !== 200) {
+      setLoaded(true)
       return
     }
     const result = await resp.json()
@@ -302,17 +166,17 @@ function App() {
   const createNewSite = async (tok: string): Promise<string> => {
     if (tok === "") return ""
 
-    const resp = await netlifyRequest('POST', `https://api.netlify.com/api/v1/sites`, tok, "", "text/html")
-
-    if (resp.status === 201) {
-      const result = await resp.json()
-      setSiteId(result.site_id)
-      setSites([...sites, {id: result.site_id, url: result.url}])
-      parent.postMessage({ pluginMessage: { type: "netlify-site", site_id: result.site_id } }, '*')
-      return result.site_id
+    let site: NetlifySite
+    try {
+      site = await createNetlifySite(tok)
+    } catch (e) {
+      console.error("Could not create a Netlify site", e)
+      return ""
     }
-
-    return ""
+    setSiteId(site.id)
+    setSites([...sites, site])
+    parent.postMessage({ pluginMessage: { type: "netlify-site", site_id: site.id } }, '*')
+    return site.id
   }
 
   const pollForToken = async () => {
@@ -338,53 +202,164 @@ function App() {
   }
 
   const changeSite = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const site = e.currentTarget.value
-    setSiteId(site)
-    if (site !== "new") {
-      parent.postMessage({ pluginMessage: { type: "netlify-site", site_id: site } }, '*');
+    const value = e.currentTarget.value
+    const target = deployTargets.find(target => target !== netlify && target.id === value)
+    const newTargetId = target ? target.id : netlify.id
+    setTargetId(newTargetId)
+    parent.postMessage({ pluginMessage: { type: "deploy-target", target_id: newTargetId } }, '*')
+    if (target) return
+
+    setSiteId(value)
+    if (value !== "new") {
+      parent.postMessage({ pluginMessage: { type: "netlify-site", site_id: value } }, '*');
     }
   }
 
+  const changeConfig = (key: string, value: string) => {
+    setTargetConfigs({ ...targetConfigs, [targetId]: { ...targetConfigs[targetId], [key]: value } })
+  }
+
+  const saveConfig = () => {
+    parent.postMessage({ pluginMessage: { type: "target-config", target_id: targetId, config: targetConfigs[targetId] || {} } }, '*')
+  }
+
+  const saveBreakpoints = () => {
+    parent.postMessage({ pluginMessage: { type: "breakpoints", breakpoints } }, '*')
+  }
+
+  const saveImageDensity = () => {
+    parent.postMessage({ pluginMessage: { type: "image-density", imageDensity } }, '*')
+  }
+
+  const saveFontFallbacks = () => {
+    parent.postMessage({ pluginMessage: { type: "font-fallbacks", fontFallbacks } }, '*')
+  }
+
   const deploy = () => {
+    lastConversion.current = null
+    setWarnings([])
+    setError("")
     setDeploying(true)
     // delay slightly so we start showing progress bar
     setTimeout(() => parent.postMessage({ pluginMessage: { type: "run" } }, '*'), 100)
-    setProgressText(randomMsg())
+    setProgressText("Converting design")
+    setProgressFraction(null)
+  }
+
+  const publishAnyway = () => {
+    const conversion = lastConversion.current
+    if (conversion === null) return
+    setWarnings([])
+    setDeploying(true)
+    setProgressFraction(null)
+    deploySite(conversion)
+  }
+
+  const selectNode = (nodeId: string) => {
+    parent.postMessage({ pluginMessage: { type: "select-node", node_id: nodeId } }, '*')
   }
 
-  const sitesToChoose = [...sites, { id: "new", url: "Create new site" }]
-  let selected = "new"
-  let url = ""
-  for (const site of sites) {
-    if (site.id === siteId) {
-      selected = siteId
-      url = site.url
-      break
+  // Deploys fail on flaky networks far more often than conversions do, so only convert again if
+  // the conversion was what failed
+  const retry = () => {
+    const conversion = lastConversion.current
+    if (conversion === null) {
+      deploy()
+      return
     }
+    setError("")
+    setDeploying(true)
+    setProgressFraction(null)
+    deploySite(conversion)
   }
 
+  const sitesToChoose = token === "" ? [] : [...sites, { id: "new", url: "Create new site" }]
+  const otherTargets = deployTargets.filter(target => target !== netlify)
+  let selected = sites.some(site => site.id === siteId) ? siteId : "new"
+  const target = currentTarget()
+  if (target !== netlify) selected = target.id
+
+  const config = targetConfigs[target.id] || {}
+
   return <div>
     <div>
-      {token === "" && <>
-        <div id="copy-connect">Connect your Netlify account to start deploying your Figma designs as live sites!</div>
+      {token === "" && !deploying && !deployed && <>
+        <div id="copy-connect">Connect your Netlify account to start deploying your Figma designs as live sites, or export them below.</div>
         <button onClick={tryConnect}>Connect</button>
       </>}
-      {loaded && !deploying && token !== "" && !deployed && <>
+      {loaded && !deploying && !deployed && <>
         <span id="copy-select-site">Where would you like to deploy your site?</span>
         <select id="site" value={selected} onChange={changeSite}>
           {sitesToChoose.map((site) => <option key={site.id} value={site.id}>{site.url}</option>)}
+          {otherTargets.map((target) => <option key={target.id} value={target.id}>{target.name}</option>)}
         </select>
+        {target.fields.map((field) => <label key={field.key} className="field">
+          <span>{field.label}{field.optional && " (optional)"}</span>
+          <input
+            type={field.secret ? "password" : "text"}
+            placeholder={field.placeholder}
+            value={config[field.key] || ""}
+            onChange={(e) => changeConfig(field.key, e.currentTarget.value)}
+            onBlur={saveConfig}
+          />
+        </label>)}
+        <label className="field">
+          <span>Breakpoints (optional)</span>
+          <input
+            type="text"
+            placeholder="Frame width: window width, e.g. 1440: 1024"
+            value={breakpoints}
+            onChange={(e) => setBreakpoints(e.currentTarget.value)}
+            onBlur={saveBreakpoints}
+          />
+        </label>
+        <label className="field">
+          <span>Image density (optional)</span>
+          <input
+            type="text"
+            placeholder="Image pixels per screen pixel, e.g. 2 to downscale larger images"
+            value={imageDensity}
+            onChange={(e) => setImageDensity(e.currentTarget.value)}
+            onBlur={saveImageDensity}
+          />
+        </label>
+        <label className="field">
+          <span>Font fallbacks (optional)</span>
+          <input
+            type="text"
+            placeholder="Family: fallbacks, e.g. Inter: Arial, sans-serif; Lora: serif"
+            value={fontFallbacks}
+            onChange={(e) => setFontFallbacks(e.currentTarget.value)}
+            onBlur={saveFontFallbacks}
+          />
+        </label>
+      </>}
+      {error !== "" && !deploying && <div id="copy-error">{error}</div>}
+      {warnings.length > 0 && !deploying && <>
+        <div id="copy-warnings">Some parts of this page won't look the same on the site. Click one to find it.</div>
+        <ul className="warnings">
+          {warnings.map((warning, i) => <li key={i} onClick={() => selectNode(warning.nodeId)}>
+            <span className="warningNode">{warning.nodeName}</span> {warning.message}
+          </li>)}
+        </ul>
+        <button onClick={publishAnyway}>Publish Anyway</button>
+        <button className="secondary" onClick={deploy}>Check Again</button>
       </>}
-      {loaded && !deploying && token !== "" && !deployed && <button onClick={deploy}>Make Magic</button>}
+      {loaded && !deploying && !deployed && warnings.length === 0 && (error === ""
+        ? <button onClick={deploy}>Make Magic</button>
+        : <button onClick={retry}>Try Again</button>)}
       {deploying && <div className="progressWrap">
-        <div className="progress" />
+        {progressFraction === null
+          ? <div className="progress" />
+          : <div className="progress determinate" style={{ width: `${progressFraction * 100}%` }} />}
         <div className="text">{progressText}</div>
       </div>}
-      {deployed && <>
+      {deployed && deployedUrl !== "" && <>
         <div id="copy-success">Congrats, your site is now live!</div>
         {/* <a id="site" href={url} onClick={() => window.open(url)}>Visit site</a> */}
-        <button onClick={() => window.open(url)}>Visit Site</button>
+        <button onClick={() => window.open(deployedUrl)}>Visit Site</button>
       </>}
+      {deployed && deployedUrl === "" && <div id="copy-success">Your site has been exported!</div>}
     </div>
   </div>
 }
@@ -0,0 +1,103 @@
+// Minimal writer for uncompressed ("stored") zip archives. Most of what we export is already
+// compressed image data, so deflating isn't worth pulling in a library for.
+
+export interface ZipEntry {
+  path: string
+  bytes: Uint8Array
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (crcTable == null) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(date: Date): { time: number, date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder()
+  const stamp = dosDateTime(modified)
+
+  const names = entries.map(entry => encoder.encode(entry.path))
+  const crcs = entries.map(entry => crc32(entry.bytes))
+
+  let localSize = 0
+  let centralSize = 0
+  for (let i = 0; i < entries.length; i++) {
+    localSize += 30 + names[i].length + entries[i].bytes.length
+    centralSize += 46 + names[i].length
+  }
+
+  const out = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(out.buffer)
+  const offsets: number[] = []
+  let pos = 0
+
+  for (let i = 0; i < entries.length; i++) {
+    const { bytes } = entries[i]
+    offsets.push(pos)
+    view.setUint32(pos, 0x04034b50, true)
+    view.setUint16(pos + 4, 20, true)       // version needed to extract
+    view.setUint16(pos + 6, 0x0800, true)   // flags: UTF-8 file names
+    view.setUint16(pos + 8, 0, true)        // compression: stored
+    view.setUint16(pos + 10, stamp.time, true)
+    view.setUint16(pos + 12, stamp.date, true)
+    view.setUint32(pos + 14, crcs[i], true)
+    view.setUint32(pos + 18, bytes.length, true)
+    view.setUint32(pos + 22, bytes.length, true)
+    view.setUint16(pos + 26, names[i].length, true)
+    view.setUint16(pos + 28, 0, true)
+    out.set(names[i], pos + 30)
+    pos += 30 + names[i].length
+    out.set(bytes, pos)
+    pos += bytes.length
+  }
+
+  const centralStart = pos
+  for (let i = 0; i < entries.length; i++) {
+    const { bytes } = entries[i]
+    view.setUint32(pos, 0x02014b50, true)
+    view.setUint16(pos + 4, 20, true)       // version made by
+    view.setUint16(pos + 6, 20, true)       // version needed to extract
+    view.setUint16(pos + 8, 0x0800, true)
+    view.setUint16(pos + 10, 0, true)
+    view.setUint16(pos + 12, stamp.time, true)
+    view.setUint16(pos + 14, stamp.date, true)
+    view.setUint32(pos + 16, crcs[i], true)
+    view.setUint32(pos + 20, bytes.length, true)
+    view.setUint32(pos + 24, bytes.length, true)
+    view.setUint16(pos + 28, names[i].length, true)
+    // Extra field, comment, disk number, internal and external attributes are all zero
+    view.setUint32(pos + 42, offsets[i], true)
+    out.set(names[i], pos + 46)
+    pos += 46 + names[i].length
+  }
+
+  view.setUint32(pos, 0x06054b50, true)
+  view.setUint16(pos + 8, entries.length, true)
+  view.setUint16(pos + 10, entries.length, true)
+  view.setUint32(pos + 12, pos - centralStart, true)
+  view.setUint32(pos + 16, centralStart, true)
+
+  return out
+}